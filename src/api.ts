@@ -3,9 +3,11 @@ import { EventEmitter } from 'events';
 import { Logger, Logging } from '@epickris/node-logger';
 import { gte } from 'semver';
 
-import { JobActionConfig, JobConfig } from './bridgeService';
+import { ConcurrencyConfig, JobActionConfig, JobConfig } from './bridgeService';
 import getVersion from './version';
 import { Job } from './job';
+import { JobStatus } from './jobRegistry';
+import { MediaInfo } from './probe';
 
 /** Log */
 const log = Logger.internal;
@@ -31,6 +33,44 @@ export type JobIdentifier = string;
 /** Library Name */
 export type LibraryName = string;
 
+/** Failed Job */
+export interface FailedJob {
+
+    /** Job Path */
+    jobPath: string;
+
+    /** Job Configuration */
+    jobConfig: JobConfig;
+
+    /** Reason */
+    reason: string;
+
+    /** Attempts */
+    attempts: number;
+
+    /** Failed At */
+    failedAt: string;
+}
+
+/** Recycled Media */
+export interface RecycledMedia {
+
+    /** ID */
+    id: string;
+
+    /** Original Path */
+    originalPath: string;
+
+    /** Recycled Path */
+    recycledPath: string;
+
+    /** Size */
+    size: number;
+
+    /** Recycled At */
+    recycledAt: string;
+}
+
 /** Plugin Type */
 export const enum PluginType {
     JOB_ACTION = 'jobAction'
@@ -55,6 +95,63 @@ export interface PluginInitializer {
 /** Job Action */
 export interface JobActionPluginConstructor {
     new(logger: Logging, config: JobActionConfig, api: API): JobActionPlugin;
+
+    /**
+     * The API version the job action was written against.
+     * Job actions declaring {@link JOB_ACTION_RESULT_API_VERSION} or later resolve {@link JobActionPlugin.start} with a {@link JobActionResult},
+     * older ones resolve it with the job and are adapted.
+     */
+    readonly apiVersion?: number;
+}
+
+/**
+ * The API version which introduced {@link JobActionResult}.
+ */
+export const JOB_ACTION_RESULT_API_VERSION = 0.2;
+
+/** Job Action Outcome */
+export const enum JobActionOutcome {
+
+    /** The job action produced a new working file or wrote to the working file. */
+    CHANGED = 'changed',
+
+    /** The job action left the working file as it was. */
+    UNCHANGED = 'unchanged',
+
+    /** The remaining job actions don't run, the working file is published as it is. */
+    SKIP_REMAINING = 'skipRemaining',
+
+    /** Nothing is published and the media is left alone from now on. */
+    REJECT = 'reject'
+}
+
+/** Job Action Artifact */
+export interface JobActionArtifact {
+
+    /** Path */
+    path: string;
+
+    /** Description */
+    description?: string;
+}
+
+/** Job Action Result */
+export interface JobActionResult {
+
+    /** Outcome */
+    outcome: JobActionOutcome;
+
+    /**
+     * Messages, logged with the job and kept in the job history.
+     * The first message is used as the reason of a skip or a rejection.
+     */
+    messages?: string[];
+
+    /** Metrics, e.g. the encoding speed or the number of removed streams. */
+    metrics?: Record<string, number>;
+
+    /** Artifacts, files the job action produced besides the working file. */
+    artifacts?: JobActionArtifact[];
 }
 
 /** Job Action Plugin */
@@ -63,14 +160,31 @@ export interface JobActionPlugin {
     /**
      * Start
      * @param job Job
+     * @param signal Aborted when the job is cancelled or times out, the job action should stop and reject with `signal.reason`.
+     * @returns Job Action Result, or the job itself for job actions written against an API version before {@link JOB_ACTION_RESULT_API_VERSION}.
      */
-    start(job: Job): Promise<Job>;
+    start(job: Job, signal: AbortSignal): Promise<JobActionResult | Job>;
 
     /**
      * Kill
+     * Called when a job action written against an API version before {@link JOB_ACTION_RESULT_API_VERSION} is aborted,
+     * and for every job action which didn't stop within the grace period.
      * @param identifier Job Identifier
      */
     kill(identifier: JobIdentifier): Promise<void>;
+
+    /**
+     * Pause
+     * Optional, job actions which can't pause keep running when a schedule asks to pause them.
+     * @param identifier Job Identifier
+     */
+    pause?(identifier: JobIdentifier): Promise<void>;
+
+    /**
+     * Resume
+     * @param identifier Job Identifier
+     */
+    resume?(identifier: JobIdentifier): Promise<void>;
 }
 
 /** API Event */
@@ -85,7 +199,22 @@ export const enum APIEvent {
      * This event is fired when compressarr got shutdown. This could be a regular shutdown or an unexpected crash.
      * At this stage all Job Actions are already unpublished!
      */
-    SHUTDOWN = 'shutdown'
+    SHUTDOWN = 'shutdown',
+
+    /**
+     * Event is fired when a job action reports progress, at most once a second per job.
+     */
+    JOB_PROGRESS = 'jobProgress',
+
+    /**
+     * Event is fired once a drain was requested and the last active job has finished.
+     */
+    QUEUE_DRAINED = 'queueDrained',
+
+    /**
+     * Event is fired when the queue was resumed while a drain was pending, the drain won't finish anymore.
+     */
+    QUEUE_DRAIN_CANCELLED = 'queueDrainCancelled'
 }
 
 /** Internal API Event */
@@ -100,9 +229,30 @@ export const enum InternalAPIEvent {
     /** Unregister Job */
     UNREGISTER_JOB = 'unregisterJob',
 
+    /** Pause Job */
+    PAUSE_JOB = 'pauseJob',
+
+    /** Resume Job */
+    RESUME_JOB = 'resumeJob',
+
     /** Publish Job */
     PUBLISH_JOB = 'publishJob',
 
+    /** Fail Job */
+    FAIL_JOB = 'failJob',
+
+    /** Skip Job */
+    SKIP_JOB = 'skipJob',
+
+    /** Time Out Job */
+    TIME_OUT_JOB = 'timeOutJob',
+
+    /** Retry Failed Job */
+    RETRY_FAILED_JOB = 'retryFailedJob',
+
+    /** Discard Failed Job */
+    DISCARD_FAILED_JOB = 'discardFailedJob',
+
     /** Register Media */
     REGISTER_MEDIA = 'registerMedia',
 
@@ -110,7 +260,25 @@ export const enum InternalAPIEvent {
     UPDATE_MEDIA = 'updateMedia',
 
     /** Unregister Media */
-    UNREGISTER_MEDIA = 'unregisterMedia'
+    UNREGISTER_MEDIA = 'unregisterMedia',
+
+    /** Reprocess Media */
+    REPROCESS_MEDIA = 'reprocessMedia',
+
+    /** Restore Media */
+    RESTORE_MEDIA = 'restoreMedia',
+
+    /** Set Concurrency */
+    SET_CONCURRENCY = 'setConcurrency',
+
+    /** Pause Queue */
+    PAUSE_QUEUE = 'pauseQueue',
+
+    /** Resume Queue */
+    RESUME_QUEUE = 'resumeQueue',
+
+    /** Drain Queue */
+    DRAIN_QUEUE = 'drainQueue'
 }
 
 /** API */
@@ -164,22 +332,80 @@ export interface API {
     /**
      * Publish Job
      * @param jobPath Job Path
+     * @param publishedPath Path the media was published to, when it differs from the job path.
+     */
+    publishJob(jobPath: string, publishedPath?: string): void;
+
+    /**
+     * Fail Job
+     * @param jobPath Job Path
+     * @param reason Reason
+     * @param retryable Retryable?
+     */
+    failJob(jobPath: string, reason: string, retryable: boolean): void;
+
+    /**
+     * Skip Job
+     * Finishes a job without publishing it, the media won't be processed again.
+     * @param jobPath Job Path
+     * @param reason Reason
      */
-    publishJob(jobPath: string): void;
+    skipJob(jobPath: string, reason: string): void;
+
+    /**
+     * Time Out Job
+     * Finishes a job which ran out of time, it is moved to the failed jobs without being retried.
+     * @param jobPath Job Path
+     * @param reason Reason
+     */
+    timeOutJob(jobPath: string, reason: string): void;
+
+    /**
+     * Get Jobs
+     * @returns Status of every queued, active and recently finished job.
+     */
+    getJobs(): JobStatus[];
+
+    /**
+     * Get Job
+     * @param identifier Job Identifier
+     * @returns Job Status?
+     */
+    getJob(identifier: JobIdentifier): JobStatus | undefined;
+
+    /**
+     * Get Failed Jobs
+     * @returns Jobs which have run out of retries.
+     */
+    getFailedJobs(): FailedJob[];
+
+    /**
+     * Retry Failed Job
+     * @param jobPath Job Path
+     */
+    retryFailedJob(jobPath: string): void;
+
+    /**
+     * Discard Failed Job
+     * @param jobPath Job Path
+     */
+    discardFailedJob(jobPath: string): void;
 
     /**
      * Register Media
      * @param libraryPath Library Path
      * @param mediaPath Media Path
+     * @param info Media Info, handed to the job so it doesn't have to probe the media again.
      */
-    registerMedia(libraryPath: string, mediaPath: string): void;
+    registerMedia(libraryPath: string, mediaPath: string, info?: MediaInfo): void;
 
     /**
      * Update Media
      * @param libraryPath Library Path
      * @param mediaPath Media Path
+     * @param info Media Info
      */
-    updateMedia(libraryPath: string, mediaPath: string): void;
+    updateMedia(libraryPath: string, mediaPath: string, info?: MediaInfo): void;
 
     /**
      * Unregister Media
@@ -188,6 +414,50 @@ export interface API {
      */
     unregisterMedia(libraryPath: string, mediaPath: string): void;
 
+    /**
+     * Reprocess Media
+     * Forgets the media in the media ledger and registers it again.
+     * @param libraryPath Library Path
+     * @param mediaPath Media Path
+     */
+    reprocessMedia(libraryPath: string, mediaPath: string): void;
+
+    /**
+     * Get Recycled Media
+     * @returns Originals kept in the recycle bin.
+     */
+    getRecycledMedia(): RecycledMedia[];
+
+    /**
+     * Restore Media
+     * Puts an original back from the recycle bin, it won't be processed again.
+     * @param id Recycled Media ID
+     */
+    restoreMedia(id: string): void;
+
+    /**
+     * Set Concurrency
+     * Changes the concurrency limits at runtime, limits which are left out keep their current value.
+     * @param concurrency Concurrency
+     */
+    setConcurrency(concurrency: ConcurrencyConfig): void;
+
+    /**
+     * Pause Queue
+     * Stops starting new jobs, active jobs keep running.
+     */
+    pauseQueue(): void;
+
+    /** Resume Queue */
+    resumeQueue(): void;
+
+    /**
+     * Drain Queue
+     * Stops starting new jobs and fires {@link APIEvent.QUEUE_DRAINED} once the active jobs have finished.
+     * Resuming the queue before cancels the drain and fires {@link APIEvent.QUEUE_DRAIN_CANCELLED}.
+     */
+    drainQueue(): void;
+
     /**
      * On Did Finish Launching
      * @param event Did Finish Launching Event
@@ -201,6 +471,59 @@ export interface API {
      * @param listener Listener
      */
     on(event: 'shutdown', listener: () => void): this;
+
+    /**
+     * On Job Progress
+     * @param event Job Progress Event
+     * @param listener Listener
+     */
+    on(event: 'jobProgress', listener: (status: JobStatus) => void): this;
+
+    /**
+     * On Queue Drained
+     * @param event Queue Drained Event
+     * @param listener Listener
+     */
+    on(event: 'queueDrained', listener: () => void): this;
+
+    /**
+     * On Queue Drain Cancelled
+     * @param event Queue Drain Cancelled Event
+     * @param listener Listener
+     */
+    on(event: 'queueDrainCancelled', listener: () => void): this;
+}
+
+/**
+ * State Provider
+ * The API reads the state it exposes from the classes which own it, every getter returns copies.
+ */
+export interface StateProvider {
+
+    /**
+     * Get Jobs
+     * @returns Job Statuses
+     */
+    getJobs(): JobStatus[];
+
+    /**
+     * Get Job
+     * @param identifier Job Identifier
+     * @returns Job Status?
+     */
+    getJob(identifier: JobIdentifier): JobStatus | undefined;
+
+    /**
+     * Get Failed Jobs
+     * @returns Failed Jobs
+     */
+    getFailedJobs(): FailedJob[];
+
+    /**
+     * Get Recycled Media
+     * @returns Recycled Media
+     */
+    getRecycledMedia(): RecycledMedia[];
 }
 
 /** Compressarr APi */
@@ -220,6 +543,27 @@ export declare interface CompressarrAPI {
      */
     on(event: 'shutdown', listener: () => void): this;
 
+    /**
+     * On Job Progress
+     * @param event Job Progress Event
+     * @param listener Listener
+     */
+    on(event: 'jobProgress', listener: (status: JobStatus) => void): this;
+
+    /**
+     * On Queue Drained
+     * @param event Queue Drained Event
+     * @param listener Listener
+     */
+    on(event: 'queueDrained', listener: () => void): this;
+
+    /**
+     * On Queue Drain Cancelled
+     * @param event Queue Drain Cancelled Event
+     * @param listener Listener
+     */
+    on(event: 'queueDrainCancelled', listener: () => void): this;
+
     /**
      * On Register Job Action
      * @param event Register Job Action Event
@@ -246,21 +590,70 @@ export declare interface CompressarrAPI {
      * @param event Publish Job Event
      * @param listener Listener
      */
-    on(event: InternalAPIEvent.PUBLISH_JOB, listener: (jobPath: string) => void): this;
+    on(event: InternalAPIEvent.PUBLISH_JOB, listener: (jobPath: string, publishedPath?: string) => void): this;
+
+    /**
+     * On Pause Job
+     * @param event Pause Job Event
+     * @param listener Listener
+     */
+    on(event: InternalAPIEvent.PAUSE_JOB, listener: (jobPath: string) => void): this;
+
+    /**
+     * On Resume Job
+     * @param event Resume Job Event
+     * @param listener Listener
+     */
+    on(event: InternalAPIEvent.RESUME_JOB, listener: (jobPath: string) => void): this;
+
+    /**
+     * On Fail Job
+     * @param event Fail Job Event
+     * @param listener Listener
+     */
+    on(event: InternalAPIEvent.FAIL_JOB, listener: (jobPath: string, reason: string, retryable: boolean) => void): this;
+
+    /**
+     * On Skip Job
+     * @param event Skip Job Event
+     * @param listener Listener
+     */
+    on(event: InternalAPIEvent.SKIP_JOB, listener: (jobPath: string, reason: string) => void): this;
+
+    /**
+     * On Time Out Job
+     * @param event Time Out Job Event
+     * @param listener Listener
+     */
+    on(event: InternalAPIEvent.TIME_OUT_JOB, listener: (jobPath: string, reason: string) => void): this;
+
+    /**
+     * On Retry Failed Job
+     * @param event Retry Failed Job Event
+     * @param listener Listener
+     */
+    on(event: InternalAPIEvent.RETRY_FAILED_JOB, listener: (jobPath: string) => void): this;
+
+    /**
+     * On Discard Failed Job
+     * @param event Discard Failed Job Event
+     * @param listener Listener
+     */
+    on(event: InternalAPIEvent.DISCARD_FAILED_JOB, listener: (jobPath: string) => void): this;
 
     /**
      * On Register Media
      * @param event Register Media Event
      * @param listener Listener
      */
-    on(event: InternalAPIEvent.REGISTER_MEDIA, listener: (libraryPath: string, mediaPath: string) => void): this;
+    on(event: InternalAPIEvent.REGISTER_MEDIA, listener: (libraryPath: string, mediaPath: string, info?: MediaInfo) => void): this;
 
     /**
      * On Update Media
      * @param event Update Media Event
      * @param listener Listener
      */
-    on(event: InternalAPIEvent.UPDATE_MEDIA, listener: (libraryPath: string, mediaPath: string) => void): this;
+    on(event: InternalAPIEvent.UPDATE_MEDIA, listener: (libraryPath: string, mediaPath: string, info?: MediaInfo) => void): this;
 
     /**
      * On Unregister Media
@@ -269,6 +662,48 @@ export declare interface CompressarrAPI {
      */
     on(event: InternalAPIEvent.UNREGISTER_MEDIA, listener: (libraryPath: string, mediaPath: string) => void): this;
 
+    /**
+     * On Reprocess Media
+     * @param event Reprocess Media Event
+     * @param listener Listener
+     */
+    on(event: InternalAPIEvent.REPROCESS_MEDIA, listener: (libraryPath: string, mediaPath: string) => void): this;
+
+    /**
+     * On Restore Media
+     * @param event Restore Media Event
+     * @param listener Listener
+     */
+    on(event: InternalAPIEvent.RESTORE_MEDIA, listener: (id: string) => void): this;
+
+    /**
+     * On Set Concurrency
+     * @param event Set Concurrency Event
+     * @param listener Listener
+     */
+    on(event: InternalAPIEvent.SET_CONCURRENCY, listener: (concurrency: ConcurrencyConfig) => void): this;
+
+    /**
+     * On Pause Queue
+     * @param event Pause Queue Event
+     * @param listener Listener
+     */
+    on(event: InternalAPIEvent.PAUSE_QUEUE, listener: () => void): this;
+
+    /**
+     * On Resume Queue
+     * @param event Resume Queue Event
+     * @param listener Listener
+     */
+    on(event: InternalAPIEvent.RESUME_QUEUE, listener: () => void): this;
+
+    /**
+     * On Drain Queue
+     * @param event Drain Queue Event
+     * @param listener Listener
+     */
+    on(event: InternalAPIEvent.DRAIN_QUEUE, listener: () => void): this;
+
     /**
      * Emit Did Finish Launching
      * @param event Did Finish Launching Event
@@ -281,6 +716,25 @@ export declare interface CompressarrAPI {
      */
     emit(event: 'shutdown'): boolean;
 
+    /**
+     * Emit Job Progress
+     * @param event Job Progress Event
+     * @param status Job Status
+     */
+    emit(event: 'jobProgress', status: JobStatus): boolean;
+
+    /**
+     * Emit Queue Drained
+     * @param event Queue Drained Event
+     */
+    emit(event: 'queueDrained'): boolean;
+
+    /**
+     * Emit Queue Drain Cancelled
+     * @param event Queue Drain Cancelled Event
+     */
+    emit(event: 'queueDrainCancelled'): boolean;
+
     /**
      * Emit Register Job Action
      * @param event Register Job Action Event
@@ -309,24 +763,80 @@ export declare interface CompressarrAPI {
      * Emit Publish Job
      * @param event Publish Job Event
      * @param jobPath Job Path
+     * @param publishedPath Published Path
+     */
+    emit(event: InternalAPIEvent.PUBLISH_JOB, jobPath: string, publishedPath?: string): boolean;
+
+    /**
+     * Emit Pause Job
+     * @param event Pause Job Event
+     * @param jobPath Job Path
+     */
+    emit(event: InternalAPIEvent.PAUSE_JOB, jobPath: string): boolean;
+
+    /**
+     * Emit Resume Job
+     * @param event Resume Job Event
+     * @param jobPath Job Path
+     */
+    emit(event: InternalAPIEvent.RESUME_JOB, jobPath: string): boolean;
+
+    /**
+     * Emit Fail Job
+     * @param event Fail Job Event
+     * @param jobPath Job Path
+     * @param reason Reason
+     * @param retryable Retryable?
+     */
+    emit(event: InternalAPIEvent.FAIL_JOB, jobPath: string, reason: string, retryable: boolean): boolean;
+
+    /**
+     * Emit Skip Job
+     * @param event Skip Job Event
+     * @param jobPath Job Path
+     * @param reason Reason
+     */
+    emit(event: InternalAPIEvent.SKIP_JOB, jobPath: string, reason: string): boolean;
+
+    /**
+     * Emit Time Out Job
+     * @param event Time Out Job Event
+     * @param jobPath Job Path
+     * @param reason Reason
      */
-    emit(event: InternalAPIEvent.PUBLISH_JOB, jobPath: string): boolean;
+    emit(event: InternalAPIEvent.TIME_OUT_JOB, jobPath: string, reason: string): boolean;
+
+    /**
+     * Emit Retry Failed Job
+     * @param event Retry Failed Job Event
+     * @param jobPath Job Path
+     */
+    emit(event: InternalAPIEvent.RETRY_FAILED_JOB, jobPath: string): boolean;
+
+    /**
+     * Emit Discard Failed Job
+     * @param event Discard Failed Job Event
+     * @param jobPath Job Path
+     */
+    emit(event: InternalAPIEvent.DISCARD_FAILED_JOB, jobPath: string): boolean;
 
     /**
      * Emit Register Media
      * @param event Register Media Event
      * @param libraryPath Library Path
      * @param mediaPath Media Path
+     * @param info Media Info
      */
-    emit(event: InternalAPIEvent.REGISTER_MEDIA, libraryPath: string, mediaPath: string): boolean;
+    emit(event: InternalAPIEvent.REGISTER_MEDIA, libraryPath: string, mediaPath: string, info?: MediaInfo): boolean;
 
     /**
      * Emit Update Media
      * @param event Update Media Event
      * @param libraryPath Library Path
      * @param mediaPath Media Path
+     * @param info Media Info
      */
-    emit(event: InternalAPIEvent.UPDATE_MEDIA, libraryPath: string, mediaPath: string): boolean;
+    emit(event: InternalAPIEvent.UPDATE_MEDIA, libraryPath: string, mediaPath: string, info?: MediaInfo): boolean;
 
     /**
      * Emit Unregister Media
@@ -335,6 +845,46 @@ export declare interface CompressarrAPI {
      * @param mediaPath Media Path
      */
     emit(event: InternalAPIEvent.UNREGISTER_MEDIA, libraryPath: string, mediaPath: string): boolean;
+
+    /**
+     * Emit Reprocess Media
+     * @param event Reprocess Media Event
+     * @param libraryPath Library Path
+     * @param mediaPath Media Path
+     */
+    emit(event: InternalAPIEvent.REPROCESS_MEDIA, libraryPath: string, mediaPath: string): boolean;
+
+    /**
+     * Emit Restore Media
+     * @param event Restore Media Event
+     * @param id Recycled Media ID
+     */
+    emit(event: InternalAPIEvent.RESTORE_MEDIA, id: string): boolean;
+
+    /**
+     * Emit Set Concurrency
+     * @param event Set Concurrency Event
+     * @param concurrency Concurrency
+     */
+    emit(event: InternalAPIEvent.SET_CONCURRENCY, concurrency: ConcurrencyConfig): boolean;
+
+    /**
+     * Emit Pause Queue
+     * @param event Pause Queue Event
+     */
+    emit(event: InternalAPIEvent.PAUSE_QUEUE): boolean;
+
+    /**
+     * Emit Resume Queue
+     * @param event Resume Queue Event
+     */
+    emit(event: InternalAPIEvent.RESUME_QUEUE): boolean;
+
+    /**
+     * Emit Drain Queue
+     * @param event Drain Queue Event
+     */
+    emit(event: InternalAPIEvent.DRAIN_QUEUE): boolean;
 }
 
 /** Compressarr API */
@@ -343,13 +893,25 @@ export class CompressarrAPI extends EventEmitter implements API {
     /**
      * Compressarr API version.
      */
-    public readonly version = 0.1;
+    public readonly version = 0.2;
 
     /**
      * Compressarr node module version.
      */
     public readonly serverVersion = getVersion();
 
+    /** State Provider */
+    private readonly stateProvider: StateProvider;
+
+    /**
+     * @param stateProvider State Provider
+     */
+    constructor(stateProvider: StateProvider) {
+        super();
+
+        this.stateProvider = stateProvider;
+    }
+
     /**
      * Version Greater or Equal
      * @param version Version
@@ -369,6 +931,14 @@ export class CompressarrAPI extends EventEmitter implements API {
         this.emit(APIEvent.SHUTDOWN);
     }
 
+    /**
+     * Signal Job Progress
+     * @param status Job Status with the progress.
+     */
+    signalJobProgress(status: JobStatus): void {
+        this.emit(APIEvent.JOB_PROGRESS, status);
+    }
+
     /**
      * Register Job Action
      * @param jobActionName Job Action Name
@@ -398,27 +968,99 @@ export class CompressarrAPI extends EventEmitter implements API {
     /**
      * Publish Job
      * @param jobPath Job Path
+     * @param publishedPath Published Path
+     */
+    publishJob(jobPath: string, publishedPath?: string): void {
+        this.emit(InternalAPIEvent.PUBLISH_JOB, jobPath, publishedPath);
+    }
+
+    /**
+     * Fail Job
+     * @param jobPath Job Path
+     * @param reason Reason
+     * @param retryable Retryable?
+     */
+    failJob(jobPath: string, reason: string, retryable: boolean): void {
+        this.emit(InternalAPIEvent.FAIL_JOB, jobPath, reason, retryable);
+    }
+
+    /**
+     * Skip Job
+     * @param jobPath Job Path
+     * @param reason Reason
      */
-    publishJob(jobPath: string): void {
-        this.emit(InternalAPIEvent.PUBLISH_JOB, jobPath);
+    skipJob(jobPath: string, reason: string): void {
+        this.emit(InternalAPIEvent.SKIP_JOB, jobPath, reason);
+    }
+
+    /**
+     * Time Out Job
+     * @param jobPath Job Path
+     * @param reason Reason
+     */
+    timeOutJob(jobPath: string, reason: string): void {
+        this.emit(InternalAPIEvent.TIME_OUT_JOB, jobPath, reason);
+    }
+
+    /**
+     * Get Jobs
+     * @returns Job Statuses
+     */
+    getJobs(): JobStatus[] {
+        return this.stateProvider.getJobs();
+    }
+
+    /**
+     * Get Job
+     * @param identifier Job Identifier
+     * @returns Job Status?
+     */
+    getJob(identifier: JobIdentifier): JobStatus | undefined {
+        return this.stateProvider.getJob(identifier);
+    }
+
+    /**
+     * Get Failed Jobs
+     * @returns Failed Jobs
+     */
+    getFailedJobs(): FailedJob[] {
+        return this.stateProvider.getFailedJobs();
+    }
+
+    /**
+     * Retry Failed Job
+     * @param jobPath Job Path
+     */
+    retryFailedJob(jobPath: string): void {
+        this.emit(InternalAPIEvent.RETRY_FAILED_JOB, jobPath);
+    }
+
+    /**
+     * Discard Failed Job
+     * @param jobPath Job Path
+     */
+    discardFailedJob(jobPath: string): void {
+        this.emit(InternalAPIEvent.DISCARD_FAILED_JOB, jobPath);
     }
 
     /**
      * Register Media
      * @param libraryPath Library Path
      * @param mediaPath Media Path
+     * @param info Media Info
      */
-    registerMedia(libraryPath: string, mediaPath: string): void {
-        this.emit(InternalAPIEvent.REGISTER_MEDIA, libraryPath, mediaPath);
+    registerMedia(libraryPath: string, mediaPath: string, info?: MediaInfo): void {
+        this.emit(InternalAPIEvent.REGISTER_MEDIA, libraryPath, mediaPath, info);
     }
 
     /**
      * Update Media
      * @param libraryPath Library Path
      * @param mediaPath Media Path
+     * @param info Media Info
      */
-    updateMedia(libraryPath: string, mediaPath: string): void {
-        this.emit(InternalAPIEvent.UPDATE_MEDIA, libraryPath, mediaPath);
+    updateMedia(libraryPath: string, mediaPath: string, info?: MediaInfo): void {
+        this.emit(InternalAPIEvent.UPDATE_MEDIA, libraryPath, mediaPath, info);
     }
 
     /**
@@ -429,4 +1071,52 @@ export class CompressarrAPI extends EventEmitter implements API {
     unregisterMedia(libraryPath: string, mediaPath: string): void {
         this.emit(InternalAPIEvent.UNREGISTER_MEDIA, libraryPath, mediaPath);
     }
+
+    /**
+     * Reprocess Media
+     * @param libraryPath Library Path
+     * @param mediaPath Media Path
+     */
+    reprocessMedia(libraryPath: string, mediaPath: string): void {
+        this.emit(InternalAPIEvent.REPROCESS_MEDIA, libraryPath, mediaPath);
+    }
+
+    /**
+     * Get Recycled Media
+     * @returns Recycled Media
+     */
+    getRecycledMedia(): RecycledMedia[] {
+        return this.stateProvider.getRecycledMedia();
+    }
+
+    /**
+     * Restore Media
+     * @param id Recycled Media ID
+     */
+    restoreMedia(id: string): void {
+        this.emit(InternalAPIEvent.RESTORE_MEDIA, id);
+    }
+
+    /**
+     * Set Concurrency
+     * @param concurrency Concurrency
+     */
+    setConcurrency(concurrency: ConcurrencyConfig): void {
+        this.emit(InternalAPIEvent.SET_CONCURRENCY, concurrency);
+    }
+
+    /** Pause Queue */
+    pauseQueue(): void {
+        this.emit(InternalAPIEvent.PAUSE_QUEUE);
+    }
+
+    /** Resume Queue */
+    resumeQueue(): void {
+        this.emit(InternalAPIEvent.RESUME_QUEUE);
+    }
+
+    /** Drain Queue */
+    drainQueue(): void {
+        this.emit(InternalAPIEvent.DRAIN_QUEUE);
+    }
 }
\ No newline at end of file
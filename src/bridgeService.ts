@@ -2,6 +2,8 @@ import { Logger } from '@epickris/node-logger';
 
 import { JobActionIdentifier, JobActionName, LibraryName, PluginIdentifier } from './api';
 import { BaseDirectory } from './fileService';
+import { MediaInfo } from './probe';
+import { OutsideWindowAction } from './schedule';
 
 /** Log */
 const log = Logger.internal;
@@ -15,6 +17,16 @@ export interface JobActionConfig extends Record<string, any> {
 
     /** Name */
     name: string;
+
+    /**
+     * Condition the file has to meet for the job action to run, for example `video.codec != 'hevc' && size > 500MB`.
+     */
+    condition?: string;
+
+    /**
+     * Seconds the job action may run for before it is aborted, unlimited by default. Time spent paused doesn't count.
+     */
+    timeout?: number;
 }
 
 /** Job Configuraton */
@@ -28,6 +40,179 @@ export interface JobConfig {
 
     /** Temperary Path */
     tempPath: string;
+
+    /** Library? */
+    library?: LibraryName;
+
+    /**
+     * Run the job actions without replacing the source.
+     */
+    dryRun?: boolean;
+
+    /** Attempts? */
+    attempts?: number;
+
+    /**
+     * Name of the pipeline whose job actions run, the default pipeline when omitted.
+     */
+    pipeline?: string;
+
+    /**
+     * Media info of the source from when it was registered, never persisted.
+     */
+    info?: MediaInfo;
+}
+
+/** Pipeline Configuration */
+export interface PipelineConfig {
+
+    /**
+     * Name of the pipeline to inherit job actions from, `default` being the global job actions.
+     */
+    extends?: string;
+
+    /**
+     * Job actions, replacing the inherited ones. Entries are job action configurations or names of global job actions.
+     */
+    jobActions?: (JobActionConfig | string)[];
+
+    /**
+     * Options merged into job actions, keyed by job action name.
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    overrides?: Record<string, Record<string, any>>;
+}
+
+/** Schedule Window */
+export interface ScheduleWindow {
+
+    /**
+     * Days of the week the window opens on, 0 or 'sunday' to 6 or 'saturday'. Every day when omitted.
+     */
+    days?: (number | string)[];
+
+    /** Start time as HH:MM. */
+    start: string;
+
+    /**
+     * End time as HH:MM, a window ending before it starts runs over midnight.
+     */
+    end: string;
+}
+
+/** Schedule Configuration */
+export interface ScheduleConfig {
+
+    /** Windows */
+    windows: ScheduleWindow[];
+
+    /**
+     * What happens to running jobs when the windows close, they finish by default.
+     */
+    outsideWindow?: OutsideWindowAction;
+}
+
+/** Concurrency Configuration */
+export interface ConcurrencyConfig {
+
+    /** Maximum number of jobs running at once. */
+    instances?: number;
+
+    /**
+     * New jobs don't start while the one minute load average per CPU is above this.
+     */
+    maxLoadAverage?: number;
+
+    /**
+     * New jobs don't start while there are fewer megabytes of free memory than this.
+     */
+    minFreeMemory?: number;
+
+    /**
+     * Maximum number of jobs running a job action at once, keyed by job action name.
+     */
+    jobActions?: Record<string, number>;
+}
+
+/** Publish Policy Configuration */
+export interface PublishPolicyConfig {
+
+    /**
+     * Minimum percentage of the source size the output has to save.
+     */
+    minSavedPercent?: number;
+
+    /**
+     * Maximum size of the output in megabytes.
+     */
+    maxSize?: number;
+
+    /**
+     * Never replace the source with a larger output.
+     */
+    neverLarger?: boolean;
+}
+
+/** Validation Configuration */
+export interface ValidationConfig {
+
+    /**
+     * Validate outputs before publishing them, enabled by default.
+     */
+    enabled?: boolean;
+
+    /**
+     * Maximum difference in seconds between the source and output duration, 2 by default.
+     */
+    durationTolerance?: number;
+
+    /**
+     * Require the output to have as many video streams as the source, enabled by default.
+     */
+    keepVideoStreams?: boolean;
+
+    /**
+     * Require the output to have as many audio streams as the source, enabled by default.
+     */
+    keepAudioStreams?: boolean;
+
+    /**
+     * Reject outputs with zero length streams, enabled by default.
+     */
+    rejectEmptyStreams?: boolean;
+}
+
+/** Recycle Bin Configuration */
+export interface RecycleBinConfig {
+
+    /**
+     * Directory replaced originals are moved to, `recycle bin` in the storage path by default.
+     */
+    path?: string;
+
+    /**
+     * Days a replaced original is kept for.
+     */
+    maxAge?: number;
+
+    /**
+     * Megabytes the recycle bin may use before the oldest originals are deleted.
+     */
+    maxSize?: number;
+}
+
+/** Timeout Configuration */
+export interface TimeoutConfig {
+
+    /**
+     * Seconds a job may spend running its job actions before it is aborted, unlimited by default. Time spent paused doesn't count.
+     */
+    job?: number;
+
+    /**
+     * Seconds an aborted job action gets to stop before it is given up on and killed, 30 by default.
+     */
+    gracePeriod?: number;
 }
 
 /** Library Configuration */
@@ -38,6 +223,36 @@ export interface LibraryConfig {
 
     /** Name */
     name: string;
+
+    /**
+     * Schedule, overrides the global schedule.
+     */
+    schedule?: ScheduleConfig;
+
+    /**
+     * Run the job actions without replacing the media, a report is written to the job directory instead.
+     */
+    dryRun?: boolean;
+
+    /**
+     * Publish policy, overrides the global publish policy.
+     */
+    publishPolicy?: PublishPolicyConfig;
+
+    /**
+     * Validation, overrides the global validation.
+     */
+    validation?: ValidationConfig;
+
+    /**
+     * Timeout, overrides the global timeout.
+     */
+    timeout?: TimeoutConfig;
+
+    /**
+     * Name of a pipeline or an inline pipeline, the global job actions run when omitted.
+     */
+    pipeline?: string | PipelineConfig;
 }
 
 /** Compressarr Configuration */
@@ -45,6 +260,11 @@ export interface CompressarrConfig {
   
     /** Job Actions */
     jobActions: JobActionConfig[];
+
+    /**
+     * Reusable pipelines libraries can refer to by name.
+     */
+    pipelines?: Record<string, PipelineConfig>;
   
     /**
      * Array to define set of active plugins.
@@ -63,4 +283,34 @@ export interface CompressarrConfig {
 
     /** Disabled Libraries */
     disabledLibraries?: LibraryName[];
+
+    /** Schedule */
+    schedule?: ScheduleConfig;
+
+    /** Concurrency */
+    concurrency?: ConcurrencyConfig;
+
+    /** Publish Policy */
+    publishPolicy?: PublishPolicyConfig;
+
+    /** Validation */
+    validation?: ValidationConfig;
+
+    /** Timeout */
+    timeout?: TimeoutConfig;
+
+    /**
+     * Keep replaced originals in a recycle bin instead of deleting them.
+     */
+    recycleBin?: RecycleBinConfig;
+
+    /**
+     * Number of times a failed job is retried before it is moved to the failed jobs.
+     */
+    retries?: number;
+
+    /**
+     * Seconds to wait before the first retry, doubled for every following retry.
+     */
+    retryDelay?: number;
 }
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { API } from './api';
+import { CommandJobAction } from './commandJobAction';
+import { FFmpegJobAction } from './ffmpegJobAction';
+import { HandBrakeJobAction } from './handBrakeJobAction';
+import { MetadataJobAction } from './metadataJobAction';
+
+/**
+ * Built-in Plugin Name, job actions shipped with Compressarr are identified as `compressarr.<name>`.
+ */
+export const BUILT_IN_PLUGIN_NAME = 'compressarr';
+
+/**
+ * Built-in Plugin
+ * Registers the job actions shipped with Compressarr.
+ * @param api API
+ */
+export default function builtInPlugin(api: API): void {
+    api.registerJobAction('Command', CommandJobAction);
+    api.registerJobAction('FFmpeg', FFmpegJobAction);
+    api.registerJobAction('HandBrake', HandBrakeJobAction);
+    api.registerJobAction('Metadata', MetadataJobAction);
+}
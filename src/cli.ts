@@ -4,7 +4,10 @@ import { Command } from 'commander';
 import { satisfies } from 'semver';
 import { Logger } from '@epickris/node-logger';
 
+import { JobHistory } from './jobHistory';
 import { CompressarrOptions, Server } from './server';
+import { formatStats, getStats, StatsPeriod } from './stats';
+import { StorageService } from './storageService';
 import { User } from './user';
 import getVersion, { getRequiredNodeVersion } from './version';
 
@@ -40,20 +43,42 @@ export = function cli(): void {
     /** Instances */
     let instances: number | undefined = undefined;
 
+    /** Force Reprocessing */
+    let force = false;
+
+    /** Dry Run */
+    let dryRun = false;
+
+    /** Stats Period, set when the stats command was run. */
+    let statsPeriod: StatsPeriod | undefined = undefined;
+
     /** Shutting Down? */
     let shuttingDown = false;
 
+    /** Paused? */
+    let paused = false;
+
     const program = new Command();
 
     program
         .version(getVersion())
         .option('-C, --color', 'Force color in logging.', () => forceColorLogging = true)
         .option('-D, --debug', 'Turn on debug level logging.', () => debugModeEnabled = true)
-        .option('-I, --instances', 'Instances.', number => instances = parseInt(number))
+        .option('-F, --force', 'Process media even if it has already been processed.', () => force = true)
+        .option('-I, --instances <number>', 'Instances.', number => instances = parseInt(number))
+        .option('-N, --dry-run', 'Run job actions without replacing any media.', () => dryRun = true)
         .option('-J, --job-path [path]', 'Job path.', path => customJobPath = path)
         .option('-P, --plugin-path [path]', 'Look for plugins installed at [path] as well as the default locations ([path] can also point to a single plugin).', path => customPluginPath = path)
         .option('-U, --user-storage-path [path]', 'Look for compressar user files at [path] instead of the default location (~/.compressar).', path => customStoragePath = path)
-        .parse(process.argv);
+        .action(() => undefined);
+
+    program
+        .command('stats')
+        .description('Summarise the bytes saved per library, per job action and per period.')
+        .option('-p, --period <period>', 'Period to group by, one of day, week, month or year.', 'month')
+        .action(options => statsPeriod = options.period);
+
+    program.parse(process.argv);
 
     if (debugModeEnabled) {
         Logger.setDebugEnabled(true);
@@ -67,13 +92,27 @@ export = function cli(): void {
         User.setStoragePath(customStoragePath);
     }
 
+    if (statsPeriod) {
+        if (![StatsPeriod.DAY, StatsPeriod.WEEK, StatsPeriod.MONTH, StatsPeriod.YEAR].includes(statsPeriod)) {
+            program.error(`Invalid period '${statsPeriod}', use day, week, month or year.`);
+        }
+
+        const jobHistory = new JobHistory(new StorageService(User.storagePath()));
+
+        process.stdout.write(`${formatStats(getStats(jobHistory.getEntries(), statsPeriod))}\n`);
+
+        return;
+    }
+
     const options: CompressarrOptions = {
         customPluginPath: customPluginPath,
         customJobPath: customJobPath,
         debugModeEnabled: debugModeEnabled,
         forceColorLogging: forceColorLogging,
         customStoragePath: customStoragePath,
-        instances: instances
+        instances: instances,
+        force: force,
+        dryRun: dryRun
     };
 
     const server = new Server(options);
@@ -94,6 +133,38 @@ export = function cli(): void {
     process.on('SIGINT', signalHandler.bind(undefined, 'SIGINT', 2));
     process.on('SIGTERM', signalHandler.bind(undefined, 'SIGTERM', 15));
 
+    process.on('SIGUSR1', () => {
+        paused = !paused;
+
+        log.info(`Got SIGUSR1, ${paused ? 'pausing' : 'resuming'} the queue...`);
+
+        if (paused) {
+            server.pause();
+        } else {
+            server.resume();
+        }
+    });
+
+    process.on('SIGUSR2', () => {
+        if (shuttingDown) {
+            return;
+        }
+
+        log.info('Got SIGUSR2, draining the queue before shutting down Compressarr...');
+
+        // Draining pauses the queue, so the next SIGUSR1 resumes it and cancels the drain.
+        paused = true;
+
+        server.drain().then(() => {
+            shuttingDown = true;
+
+            server.teardown();
+            process.exit(0);
+        }, error => {
+            log.info(`${error.message} Compressarr keeps running.`);
+        });
+    });
+
     const errorHandler = (error: Error): void => {
         if (error.stack) {
             log.error(error.stack);
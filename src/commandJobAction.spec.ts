@@ -0,0 +1,154 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { Logger } from '@epickris/node-logger';
+import { FFProbeStream } from 'ffprobe';
+import { existsSync, mkdtempSync, readFileSync, removeSync, writeFileSync } from 'fs-extra';
+
+import { JobActionOutcome } from './api';
+import { CommandJobAction } from './commandJobAction';
+import { JobFailedError, KillError } from './errors';
+import { Job } from './job';
+
+describe('CommandJobAction', () => {
+    let path: string;
+    let job: Job;
+
+    /**
+     * Create Job Action
+     * @param config Job Action Configuration
+     * @returns Command Job Action
+     */
+    const createJobAction = (config: Record<string, unknown>) => new CommandJobAction(Logger.withPrefix('Command'), {
+        jobAction: 'Command',
+        name: 'Command',
+        ...config
+    });
+
+    /**
+     * Wait For
+     * @param filePath Path of a file.
+     * @returns Resolves once the file exists.
+     */
+    const waitFor = async (filePath: string): Promise<void> => {
+        while (!existsSync(filePath)) {
+            await new Promise(resolve => setTimeout(resolve, 10));
+        }
+    };
+
+    beforeEach(() => {
+        path = mkdtempSync(join(tmpdir(), 'compressarr-'));
+
+        writeFileSync(join(path, 'movie.mkv'), 'source');
+
+        job = new Job(Logger.withPrefix('movie'), {
+            name: 'movie',
+            srcPath: join(path, 'movie.mkv'),
+            tempPath: join(path, 'job'),
+            info: { streams: [{ index: 0, codec_type: 'video', codec_name: 'h264' } as FFProbeStream] }
+        });
+    });
+
+    afterEach(() => {
+        removeSync(path);
+    });
+
+    it('makes the file the command wrote to its output the working file', async () => {
+        const result = await createJobAction({
+            command: 'cp',
+            arguments: ['{input}', '{output}'],
+            extension: 'mp4'
+        }).start(job, new AbortController().signal);
+
+        expect(result).toEqual({ outcome: JobActionOutcome.CHANGED, metrics: { seconds: expect.any(Number) } });
+        expect(job.getSrcPath()).toBe(join(path, 'job', 'movie-1.mp4'));
+        expect(readFileSync(job.getSrcPath(), 'utf8')).toBe('source');
+    });
+
+    it('leaves the working file unchanged if the command didn\'t write its output', async () => {
+        const result = await createJobAction({ command: 'true' }).start(job, new AbortController().signal);
+
+        expect(result.outcome).toBe(JobActionOutcome.UNCHANGED);
+        expect(job.getSrcPath()).toBe(join(path, 'movie.mkv'));
+    });
+
+    it('keeps a file at its output which the command didn\'t write', async () => {
+        writeFileSync(job.getDestPath('mkv'), 'leftover');
+
+        const result = await createJobAction({ command: 'true' }).start(job, new AbortController().signal);
+
+        expect(result.outcome).toBe(JobActionOutcome.UNCHANGED);
+        expect(job.getSrcPath()).toBe(join(path, 'movie.mkv'));
+        expect(readFileSync(join(path, 'job', 'movie-1.mkv'), 'utf8')).toBe('leftover');
+    });
+
+    it('runs a shell script with the rendered arguments, environment and working directory', async () => {
+        await createJobAction({
+            command: 'echo "$0 $1 $CODEC $(pwd)" > "$2"',
+            arguments: ['{video.codec}', '{output}'],
+            shell: true,
+            env: { CODEC: 'codec={video.codec}' },
+            cwd: join(path, 'job')
+        }).start(job, new AbortController().signal);
+
+        expect(readFileSync(job.getSrcPath(), 'utf8')).toBe(`Command h264 codec=h264 ${join(path, 'job')}\n`);
+    });
+
+    it('treats the configured exit codes as success', async () => {
+        const jobAction = createJobAction({ command: 'exit 3', shell: true, successExitCodes: [0, 3] });
+
+        await expect(jobAction.start(job, new AbortController().signal)).resolves.toMatchObject({ outcome: JobActionOutcome.UNCHANGED });
+    });
+
+    it('fails if the command exits with an error', async () => {
+        const jobAction = createJobAction({ command: 'echo \'No space left\' >&2; exit 1', shell: true });
+
+        await expect(jobAction.start(job, new AbortController().signal)).rejects.toThrow('/bin/sh exited with code 1: No space left');
+    });
+
+    it('fails for good if the configuration is invalid', async () => {
+        await expect(createJobAction({}).start(job, new AbortController().signal))
+            .rejects.toMatchObject({ message: 'Command has no command configured.', retryable: false });
+        await expect(createJobAction({ command: 'true', arguments: '{input}' }).start(job, new AbortController().signal))
+            .rejects.toMatchObject({ message: 'The arguments of Command must be a list of strings.', retryable: false });
+        await expect(createJobAction({ command: 'true', env: { CODEC: 1 } }).start(job, new AbortController().signal))
+            .rejects.toMatchObject({ message: 'The environment of Command must map names to strings.', retryable: false });
+        await expect(createJobAction({ command: 'true', successExitCodes: ['0'] }).start(job, new AbortController().signal))
+            .rejects.toMatchObject({ message: 'The success exit codes of Command must be a list of integers.', retryable: false });
+        await expect(createJobAction({ command: 'true', arguments: ['{unknown}'] }).start(job, new AbortController().signal))
+            .rejects.toMatchObject({ message: 'Unknown placeholder {unknown} in "{unknown}".', retryable: false });
+    });
+
+    it('fails for good if the command was not found', async () => {
+        const command = join(path, 'missing');
+        const start = createJobAction({ command: command }).start(job, new AbortController().signal);
+
+        await expect(start).rejects.toBeInstanceOf(JobFailedError);
+        await expect(start).rejects.toMatchObject({
+            message: `${command} was not found, check the command of Command.`,
+            retryable: false
+        });
+    });
+
+    it('stops every process of a shell script once killed', async () => {
+        const jobAction = createJobAction({ command: `touch "${join(path, 'started')}"; sleep 30; touch "${join(path, 'finished')}"`, shell: true });
+        const start = jobAction.start(job, new AbortController().signal);
+
+        await waitFor(join(path, 'started'));
+        await jobAction.kill(job.identifier);
+
+        await expect(start).rejects.toBeInstanceOf(KillError);
+        expect(existsSync(join(path, 'finished'))).toBe(false);
+    });
+
+    it('rejects with the reason of the signal once aborted', async () => {
+        const controller = new AbortController();
+        const start = createJobAction({ command: `touch "${join(path, 'started')}"; sleep 30`, shell: true }).start(job, controller.signal);
+        const reason = new Error('Timed out.');
+
+        await waitFor(join(path, 'started'));
+        controller.abort(reason);
+
+        await expect(start).rejects.toBe(reason);
+    });
+});
@@ -0,0 +1,190 @@
+import { basename } from 'path';
+
+import { Logging, getErrorMessage } from '@epickris/node-logger';
+import { existsSync, statSync } from 'fs-extra';
+
+import { JobActionOutcome, JobActionResult } from './api';
+import { JobActionConfig } from './bridgeService';
+import { ConditionContext } from './condition';
+import { JobFailedError } from './errors';
+import { Job } from './job';
+import { ProcessJobAction } from './processJobAction';
+import { createTemplateContext, renderTemplate } from './template';
+
+/** Command Job Action Configuration */
+export interface CommandJobActionConfig extends JobActionConfig {
+
+    /**
+     * Command, a template like the arguments.
+     * A script of the shell if `shell` is enabled, which gets the arguments as `$1`, `$2` and so on instead.
+     */
+    command: string;
+
+    /**
+     * Arguments, every argument is a template which can use `{input}`, `{output}` and the values a condition can use.
+     */
+    arguments?: string[];
+
+    /**
+     * Run the command with `/bin/sh`, so it can use pipes and redirects.
+     */
+    shell?: boolean;
+
+    /**
+     * Environment variables on top of those of Compressarr, every value is a template.
+     */
+    env?: Record<string, string>;
+
+    /**
+     * Working directory, a template.
+     */
+    cwd?: string;
+
+    /**
+     * Exit codes which mean success, only 0 by default.
+     */
+    successExitCodes?: number[];
+
+    /**
+     * Extension of `{output}`, the extension of the working file by default.
+     */
+    extension?: string;
+}
+
+/**
+ * Command Job Action
+ * Runs a command, e.g. a script or a tool without a plugin of its own.
+ * The file the command writes to `{output}` becomes the working file, a command which doesn't write it leaves the working file unchanged.
+ */
+export class CommandJobAction extends ProcessJobAction {
+
+    /** API Version */
+    static readonly apiVersion = 0.2;
+
+    /** Configuration */
+    private readonly config: CommandJobActionConfig;
+
+    /**
+     * @param log Log
+     * @param config Job Action Configuration
+     */
+    constructor(log: Logging, config: JobActionConfig) {
+        super(log);
+
+        this.config = config as CommandJobActionConfig;
+    }
+
+    /**
+     * Start
+     * @param job Job
+     * @param signal Abort Signal
+     * @returns Job Action Result
+     */
+    async start(job: Job, signal: AbortSignal): Promise<JobActionResult> {
+        const { name, command, shell } = this.config;
+        const templates = this.config.arguments || [];
+        const env = this.config.env || {};
+        const successExitCodes = this.config.successExitCodes || [0];
+
+        if (typeof command !== 'string' || command === '') {
+            throw new JobFailedError(`${name} has no command configured.`, false);
+        }
+
+        if (!Array.isArray(templates) || templates.some(template => typeof template !== 'string')) {
+            throw new JobFailedError(`The arguments of ${name} must be a list of strings.`, false);
+        }
+
+        if (!env || typeof env !== 'object' || Object.values(env).some(value => typeof value !== 'string')) {
+            throw new JobFailedError(`The environment of ${name} must map names to strings.`, false);
+        }
+
+        if (!Array.isArray(successExitCodes) || successExitCodes.some(code => !Number.isInteger(code))) {
+            throw new JobFailedError(`The success exit codes of ${name} must be a list of integers.`, false);
+        }
+
+        if (shell && process.platform === 'win32') {
+            throw new JobFailedError(`${name} can't run a shell on Windows.`, false);
+        }
+
+        const output = job.getDestPath(this.config.extension || job.getSrcExt());
+        const context = await createTemplateContext(job, { input: job.getSrcPath(), output: output });
+        const render = (template: string) => renderTemplate(template, context);
+
+        let executable: string;
+        let args: string[];
+        let processEnv: NodeJS.ProcessEnv;
+        let cwd: string | undefined;
+
+        try {
+            executable = shell ? '/bin/sh' : render(command);
+            args = templates.map(render);
+            processEnv = { ...process.env, ...this.renderEnv(env, context) };
+            cwd = this.config.cwd ? render(this.config.cwd) : undefined;
+        } catch (error) {
+            throw new JobFailedError(getErrorMessage(error), false);
+        }
+
+        // Whether the command wrote the output is told by the file, a file which was there before only counts once it changed.
+        const writtenAt = this.getModifiedAt(output);
+        const startedAt = Date.now();
+        const logLine = (line: string) => job.log.info(`${name}: ${line}`);
+
+        await this.runProcess(job, {
+            // The script comes first and gets its name as $0, the arguments never pass through the shell's parser.
+            command: executable,
+            args: shell ? ['-c', command, name, ...args] : args,
+            notFoundHint: `check the command of ${name}`,
+            cwd: cwd,
+            env: processEnv,
+            group: shell,
+            successExitCodes: successExitCodes,
+            onStdout: line => {
+                if (line.trim() !== '') logLine(line);
+            },
+            onStderr: logLine
+        }, signal);
+
+        const seconds = (Date.now() - startedAt) / 1000;
+
+        const modifiedAt = this.getModifiedAt(output);
+
+        if (output === job.getSrcPath() || modifiedAt === undefined || modifiedAt === writtenAt) {
+            return {
+                outcome: JobActionOutcome.UNCHANGED,
+                metrics: { seconds: seconds }
+            };
+        }
+
+        job.setPath(basename(output));
+
+        return {
+            outcome: JobActionOutcome.CHANGED,
+            metrics: { seconds: seconds }
+        };
+    }
+
+    /**
+     * Get Modified At
+     * @param path Path
+     * @returns Milliseconds since the epoch the file was last modified, if it exists.
+     */
+    private getModifiedAt(path: string): number | undefined {
+        return existsSync(path) ? statSync(path).mtimeMs : undefined;
+    }
+
+    /**
+     * Render Environment
+     * @param env Environment Templates
+     * @param context Template Context
+     * @returns Environment
+     */
+    private renderEnv(env: Record<string, string>, context: ConditionContext): NodeJS.ProcessEnv {
+        const rendered: NodeJS.ProcessEnv = {};
+
+        for (const [key, template] of Object.entries(env)) {
+            rendered[key] = renderTemplate(template, context);
+        }
+
+        return rendered;
+    }
+}
@@ -0,0 +1,72 @@
+import { Condition, ConditionContext } from './condition';
+
+const context: ConditionContext = {
+    'name': 'Movie (2024)',
+    'extension': 'mkv',
+    'size': 600 * 1024 ** 2,
+    'duration': 5400,
+    'video.codec': 'h264',
+    'video.bitrate': 9000000,
+    'video.height': 1080,
+    'audio.codecs': ['aac', 'ac3'],
+    'audio.channels': undefined
+};
+
+const evaluate = (expression: string) => new Condition(expression).evaluate(context);
+
+describe('Condition', () => {
+    it('compares numbers with units', () => {
+        expect(evaluate('size >= 500MB')).toBe(true);
+        expect(evaluate('size > 1GB')).toBe(false);
+        expect(evaluate('video.bitrate > 8Mbps')).toBe(true);
+        expect(evaluate('video.bitrate <= 8000kbps')).toBe(false);
+        expect(evaluate('duration == 1.5h')).toBe(true);
+        expect(evaluate('duration < 90min')).toBe(false);
+    });
+
+    it('compares strings case insensitively', () => {
+        expect(evaluate('video.codec == \'H264\'')).toBe(true);
+        expect(evaluate('video.codec != "hevc"')).toBe(true);
+        expect(evaluate('extension in [\'MP4\', \'MKV\']')).toBe(true);
+        expect(evaluate('name contains \'movie\'')).toBe(true);
+        expect(evaluate('audio.codecs contains \'AC3\'')).toBe(true);
+        expect(evaluate('audio.codecs contains \'dts\'')).toBe(false);
+    });
+
+    it('matches regular expressions', () => {
+        expect(evaluate('name matches \'[(][0-9]{4}[)]$\'')).toBe(true);
+        expect(evaluate('name matches \'^trailer\'')).toBe(false);
+    });
+
+    it('combines comparisons with the precedence of their operators', () => {
+        expect(evaluate('video.codec == \'hevc\' || size > 500MB && video.height >= 1080')).toBe(true);
+        expect(evaluate('(video.codec == \'hevc\' || size > 500MB) && video.height > 1080')).toBe(false);
+        expect(evaluate('!(video.codec == \'hevc\') and not extension == \'mp4\'')).toBe(true);
+        expect(evaluate('video.codec == \'hevc\' or false')).toBe(false);
+    });
+
+    it('only lets unknown values satisfy !=', () => {
+        expect(evaluate('audio.channels == 2')).toBe(false);
+        expect(evaluate('audio.channels < 6')).toBe(false);
+        expect(evaluate('audio.channels >= 6')).toBe(false);
+        expect(evaluate('audio.channels != 2')).toBe(true);
+        expect(evaluate('subtitle.count > 0')).toBe(false);
+    });
+
+    it('describes the values it refers to', () => {
+        expect(new Condition('video.codec != \'hevc\' && size > 500MB').describe(context))
+            .toBe(`video.codec = "h264", size = ${600 * 1024 ** 2}`);
+    });
+
+    it('rejects invalid expressions', () => {
+        expect(() => new Condition('size >')).toThrow('Invalid condition \'size >\', it ends unexpectedly.');
+        expect(() => new Condition('size > 5XB')).toThrow('Invalid condition \'size > 5XB\', unknown unit \'XB\'.');
+        expect(() => new Condition('size > 5 5')).toThrow('Invalid condition \'size > 5 5\', unexpected \'5\' at position 10.');
+        expect(() => new Condition('size # 5')).toThrow('Invalid condition \'size # 5\', unexpected character at position 6.');
+        expect(() => new Condition('(size > 5')).toThrow('Invalid condition \'(size > 5\', expected \')\'.');
+    });
+
+    it('rejects invalid patterns when it is created', () => {
+        expect(() => new Condition('name matches \'(\'')).toThrow('Invalid condition \'name matches \'(\'\', \'(\' is not a valid regular expression.');
+    });
+});
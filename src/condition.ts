@@ -0,0 +1,454 @@
+import { basename, extname, parse } from 'path';
+
+import { FFProbeResult, FFProbeStream } from 'ffprobe';
+
+import { getDuration } from './probe';
+
+/** Condition Value */
+export type ConditionValue = string | number | boolean | undefined | ConditionValue[];
+
+/** Condition Context, the values a condition can refer to by name. */
+export type ConditionContext = Record<string, ConditionValue>;
+
+/** Token */
+interface Token {
+
+    /** Type */
+    type: 'number' | 'string' | 'identifier' | 'operator' | 'punctuation';
+
+    /** Value */
+    value: string | number;
+
+    /** Position in the expression. */
+    position: number;
+}
+
+/** Node */
+type Node =
+    { type: 'literal', value: ConditionValue } |
+    { type: 'identifier', name: string } |
+    { type: 'list', items: Node[] } |
+    { type: 'not', operand: Node } |
+    { type: 'logical', operator: '&&' | '||', left: Node, right: Node } |
+    { type: 'comparison', operator: string, left: Node, right: Node, pattern?: RegExp };
+
+/**
+ * Unit suffixes of numbers, sizes are binary bytes, bitrates are decimal bits per second and durations are seconds.
+ */
+const UNITS: Record<string, number> = {
+    b: 1,
+    kb: 1024,
+    mb: 1024 ** 2,
+    gb: 1024 ** 3,
+    tb: 1024 ** 4,
+    bps: 1,
+    kbps: 1000,
+    mbps: 1000 ** 2,
+    gbps: 1000 ** 3,
+    s: 1,
+    min: 60,
+    h: 60 * 60
+};
+
+/** Comparison Operators */
+const COMPARISON_OPERATORS = ['==', '!=', '<=', '>=', '<', '>', 'in', 'contains', 'matches'];
+
+/** Keyword Operators */
+const KEYWORD_OPERATORS: Record<string, string> = {
+    and: '&&',
+    or: '||',
+    not: '!',
+    in: 'in',
+    contains: 'contains',
+    matches: 'matches'
+};
+
+/**
+ * A condition expression deciding whether a job action runs, for example
+ * `video.codec != 'hevc' && video.bitrate > 8Mbps` or `size >= 500MB`.
+ */
+export class Condition {
+
+    /** Root Node */
+    private readonly root: Node;
+
+    /** Names the expression refers to. */
+    private readonly identifiers: Set<string> = new Set();
+
+    /** Tokens */
+    private readonly tokens: Token[];
+
+    /** Token Index */
+    private index = 0;
+
+    /**
+     * @param expression Expression
+     */
+    constructor(
+        public readonly expression: string
+    ) {
+        this.tokens = Condition.tokenize(expression);
+        this.root = this.parseOr();
+
+        if (this.index < this.tokens.length) {
+            throw this.syntaxError(this.tokens[this.index]);
+        }
+    }
+
+    /**
+     * Evaluate
+     * @param context Condition Context
+     * @returns Is the condition met?
+     */
+    public evaluate(context: ConditionContext): boolean {
+        return Condition.isTruthy(this.evaluateNode(this.root, context));
+    }
+
+    /**
+     * Describe
+     * @param context Condition Context
+     * @returns The values the expression refers to, to explain the outcome.
+     */
+    public describe(context: ConditionContext): string {
+        return Array.from(this.identifiers)
+            .map(name => `${name} = ${JSON.stringify(context[name])}`)
+            .join(', ');
+    }
+
+    /**
+     * Create Context
+     * @param info Probe Result of the file, when it could be probed.
+     * @param filePath Path of the file as it is now.
+     * @param size Size of the file in bytes.
+     * @param srcPath Path of the media in its library.
+     * @param library Library Name
+     * @returns Condition Context
+     */
+    public static createContext(info: FFProbeResult | undefined, filePath: string, size: number, srcPath: string, library?: string): ConditionContext {
+        const streams = info ? info.streams : [];
+        const videoStreams = streams.filter(stream => stream.codec_type === 'video' && !(stream.disposition && stream.disposition.attached_pic));
+        const audioStreams = streams.filter(stream => stream.codec_type === 'audio');
+        // The ffprobe typings don't know about subtitle streams.
+        const subtitleStreams = streams.filter(stream => String(stream.codec_type) === 'subtitle');
+        const video: FFProbeStream | undefined = videoStreams[0];
+        const audio: FFProbeStream | undefined = audioStreams[0];
+        const duration = info ? getDuration(info) : undefined;
+        const number = (value: unknown) => value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : undefined;
+
+        return {
+            'path': srcPath,
+            'name': parse(srcPath).name,
+            'file': basename(filePath),
+            'extension': extname(filePath).slice(1).toLowerCase(),
+            'library': library,
+            'size': size,
+            'duration': duration,
+            'bitrate': duration ? Math.round(size * 8 / duration) : undefined,
+            'video.codec': video ? video.codec_name : undefined,
+            'video.codecs': videoStreams.map(stream => stream.codec_name || 'unknown'),
+            'video.bitrate': video ? number(video.bit_rate) : undefined,
+            'video.width': video ? video.width : undefined,
+            'video.height': video ? video.height : undefined,
+            'video.pixelFormat': video ? video.pix_fmt : undefined,
+            'video.count': videoStreams.length,
+            'audio.codec': audio ? audio.codec_name : undefined,
+            'audio.codecs': audioStreams.map(stream => stream.codec_name || 'unknown'),
+            'audio.bitrate': audio ? number(audio.bit_rate) : undefined,
+            'audio.channels': audio ? audio.channels : undefined,
+            'audio.count': audioStreams.length,
+            'subtitle.codecs': subtitleStreams.map(stream => stream.codec_name || 'unknown'),
+            'subtitle.count': subtitleStreams.length
+        };
+    }
+
+    /**
+     * Tokenize
+     * @param expression Expression
+     * @returns Tokens
+     */
+    private static tokenize(expression: string): Token[] {
+        const tokens: Token[] = [];
+        const pattern = /\s*(?:(\d+(?:\.\d+)?)([a-zA-Z]*)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|([a-zA-Z_][\w.]*)|(==|!=|<=|>=|&&|\|\||[<>!])|([()[\],]))/y;
+        let match: RegExpExecArray | null;
+
+        pattern.lastIndex = 0;
+
+        while (pattern.lastIndex < expression.length) {
+            const offset = expression.slice(pattern.lastIndex).search(/\S/);
+
+            if (offset === -1) break;
+
+            // Positions point at the token, not at the whitespace before it.
+            const position = pattern.lastIndex + offset;
+
+            match = pattern.exec(expression);
+
+            if (!match) {
+                throw new Error(`Invalid condition '${expression}', unexpected character at position ${position + 1}.`);
+            }
+
+            if (match[1] !== undefined) {
+                const unit = match[2].toLowerCase();
+
+                if (unit && UNITS[unit] === undefined) {
+                    throw new Error(`Invalid condition '${expression}', unknown unit '${match[2]}'.`);
+                }
+
+                tokens.push({ type: 'number', value: parseFloat(match[1]) * (unit ? UNITS[unit] : 1), position: position });
+            } else if (match[3] !== undefined || match[4] !== undefined) {
+                const value = (match[3] !== undefined ? match[3] : match[4]).replace(/\\(.)/g, '$1');
+
+                tokens.push({ type: 'string', value: value, position: position });
+            } else if (match[5] !== undefined) {
+                const keyword = KEYWORD_OPERATORS[match[5].toLowerCase()];
+
+                tokens.push(keyword ? { type: 'operator', value: keyword, position: position } : { type: 'identifier', value: match[5], position: position });
+            } else if (match[6] !== undefined) {
+                tokens.push({ type: 'operator', value: match[6], position: position });
+            } else {
+                tokens.push({ type: 'punctuation', value: match[7], position: position });
+            }
+        }
+
+        return tokens;
+    }
+
+    /**
+     * Parse Or
+     * @returns Node
+     */
+    private parseOr(): Node {
+        let left = this.parseAnd();
+
+        while (this.accept('operator', '||')) {
+            left = { type: 'logical', operator: '||', left: left, right: this.parseAnd() };
+        }
+
+        return left;
+    }
+
+    /**
+     * Parse And
+     * @returns Node
+     */
+    private parseAnd(): Node {
+        let left = this.parseNot();
+
+        while (this.accept('operator', '&&')) {
+            left = { type: 'logical', operator: '&&', left: left, right: this.parseNot() };
+        }
+
+        return left;
+    }
+
+    /**
+     * Parse Not
+     * @returns Node
+     */
+    private parseNot(): Node {
+        if (this.accept('operator', '!')) {
+            return { type: 'not', operand: this.parseNot() };
+        }
+
+        return this.parseComparison();
+    }
+
+    /**
+     * Parse Comparison
+     * @returns Node
+     */
+    private parseComparison(): Node {
+        const left = this.parseValue();
+        const token = this.tokens[this.index];
+
+        if (token && token.type === 'operator' && COMPARISON_OPERATORS.includes(token.value as string)) {
+            this.index++;
+
+            const right = this.parseValue();
+
+            // Patterns written into the expression are compiled up front, so a broken one fails with the configuration.
+            if (token.value === 'matches' && right.type === 'literal' && right.value !== undefined) {
+                return { type: 'comparison', operator: 'matches', left: left, right: right, pattern: this.compilePattern(String(right.value)) };
+            }
+
+            return { type: 'comparison', operator: token.value as string, left: left, right: right };
+        }
+
+        return left;
+    }
+
+    /**
+     * Parse Value
+     * @returns Node
+     */
+    private parseValue(): Node {
+        const token = this.tokens[this.index++];
+
+        if (!token) {
+            throw new Error(`Invalid condition '${this.expression}', it ends unexpectedly.`);
+        }
+
+        if (token.type === 'number' || token.type === 'string') {
+            return { type: 'literal', value: token.value };
+        }
+
+        if (token.type === 'identifier') {
+            if (token.value === 'true' || token.value === 'false') {
+                return { type: 'literal', value: token.value === 'true' };
+            }
+
+            this.identifiers.add(token.value as string);
+
+            return { type: 'identifier', name: token.value as string };
+        }
+
+        if (token.type === 'punctuation' && token.value === '(') {
+            const node = this.parseOr();
+
+            this.expect(')');
+
+            return node;
+        }
+
+        if (token.type === 'punctuation' && token.value === '[') {
+            const items: Node[] = [];
+
+            if (!this.accept('punctuation', ']')) {
+                do {
+                    items.push(this.parseValue());
+                } while (this.accept('punctuation', ','));
+
+                this.expect(']');
+            }
+
+            return { type: 'list', items: items };
+        }
+
+        throw this.syntaxError(token);
+    }
+
+    /**
+     * Accept
+     * @param type Token Type
+     * @param value Token Value
+     * @returns Was the next token accepted?
+     */
+    private accept(type: Token['type'], value: string): boolean {
+        const token = this.tokens[this.index];
+
+        if (!token || token.type !== type || token.value !== value) return false;
+
+        this.index++;
+
+        return true;
+    }
+
+    /**
+     * Expect
+     * @param value Punctuation
+     */
+    private expect(value: string): void {
+        if (!this.accept('punctuation', value)) {
+            const token = this.tokens[this.index];
+
+            throw token ? this.syntaxError(token) : new Error(`Invalid condition '${this.expression}', expected '${value}'.`);
+        }
+    }
+
+    /**
+     * Compile Pattern
+     * @param pattern Regular Expression
+     * @returns Case insensitive Regular Expression
+     */
+    private compilePattern(pattern: string): RegExp {
+        try {
+            return new RegExp(pattern, 'i');
+        } catch (error) {
+            throw new Error(`Invalid condition '${this.expression}', '${pattern}' is not a valid regular expression.`);
+        }
+    }
+
+    /**
+     * Syntax Error
+     * @param token Unexpected Token
+     * @returns Error
+     */
+    private syntaxError(token: Token): Error {
+        return new Error(`Invalid condition '${this.expression}', unexpected '${token.value}' at position ${token.position + 1}.`);
+    }
+
+    /**
+     * Evaluate Node
+     * @param node Node
+     * @param context Condition Context
+     * @returns Value
+     */
+    private evaluateNode(node: Node, context: ConditionContext): ConditionValue {
+        switch (node.type) {
+            case 'literal':
+                return node.value;
+            case 'identifier':
+                return context[node.name];
+            case 'list':
+                return node.items.map(item => this.evaluateNode(item, context));
+            case 'not':
+                return !Condition.isTruthy(this.evaluateNode(node.operand, context));
+            case 'logical': {
+                const left = Condition.isTruthy(this.evaluateNode(node.left, context));
+
+                if (node.operator === '&&') return left && Condition.isTruthy(this.evaluateNode(node.right, context));
+
+                return left || Condition.isTruthy(this.evaluateNode(node.right, context));
+            }
+            case 'comparison':
+                return Condition.compare(node.operator, this.evaluateNode(node.left, context), this.evaluateNode(node.right, context), node.pattern);
+        }
+    }
+
+    /**
+     * Compare
+     * Unknown values only ever satisfy `!=`, so a file which could not be probed doesn't match by accident.
+     * @param operator Comparison Operator
+     * @param left Left Value
+     * @param right Right Value
+     * @param pattern Compiled pattern of the right value, for `matches`.
+     * @returns Result
+     */
+    private static compare(operator: string, left: ConditionValue, right: ConditionValue, pattern?: RegExp): boolean {
+        if (left === undefined || right === undefined) return operator === '!=';
+
+        const normalize = (value: ConditionValue) => typeof value === 'string' ? value.toLowerCase() : value;
+
+        switch (operator) {
+            case '==':
+                return normalize(left) === normalize(right);
+            case '!=':
+                return normalize(left) !== normalize(right);
+            case '<':
+                return left < right;
+            case '<=':
+                return left <= right;
+            case '>':
+                return left > right;
+            case '>=':
+                return left >= right;
+            case 'in':
+                return Array.isArray(right) && right.map(normalize).includes(normalize(left));
+            case 'contains':
+                return Array.isArray(left) ? left.map(normalize).includes(normalize(right)) : String(left).toLowerCase().includes(String(right).toLowerCase());
+            case 'matches':
+                return (pattern || new RegExp(String(right), 'i')).test(String(left));
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Is Truthy?
+     * @param value Value
+     * @returns Truthy?
+     */
+    private static isTruthy(value: ConditionValue): boolean {
+        return Array.isArray(value) ? value.length > 0 : !!value;
+    }
+}
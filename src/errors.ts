@@ -1,2 +1,20 @@
 /** Kill Error */
-export class KillError extends Error {}
\ No newline at end of file
+export class KillError extends Error {}
+
+/**
+ * Timeout Error
+ * The reason a job action's signal is aborted with when it ran out of time.
+ */
+export class TimeoutError extends Error {}
+
+/** Job Failed Error */
+export class JobFailedError extends Error {
+
+    /**
+     * @param message Message
+     * @param retryable Should the job be retried?
+     */
+    constructor(message?: string, public readonly retryable = true) {
+        super(message);
+    }
+}
@@ -0,0 +1,174 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { Logger } from '@epickris/node-logger';
+import { FFProbeStream } from 'ffprobe';
+import { chmodSync, mkdtempSync, readFileSync, removeSync, writeFileSync } from 'fs-extra';
+
+import { JobActionOutcome } from './api';
+import { JobFailedError, KillError } from './errors';
+import { FFmpegJobAction } from './ffmpegJobAction';
+import { Job, JobProgress } from './job';
+
+/** Script reading the last argument into `$output` and writing the arguments to `arguments.txt`. */
+const PARSE_OUTPUT = 'for argument; do output="$argument"; echo "$argument"; done > "$(dirname "$0")/arguments.txt"';
+
+/** Script reporting some progress, then waiting to be stopped. */
+const RUN_UNTIL_STOPPED = 'printf \'out_time_us=1000000\\nprogress=continue\\n\'\nexec sleep 30';
+
+describe('FFmpegJobAction', () => {
+    let path: string;
+    let job: Job;
+    let progress: JobProgress[];
+    let progressed: () => void;
+
+    /**
+     * Write Stub
+     * @param script Script standing in for ffmpeg.
+     * @returns Path of the stub.
+     */
+    const writeStub = (script: string): string => {
+        const stubPath = join(path, 'ffmpeg');
+
+        writeFileSync(stubPath, `#!/bin/sh\n${PARSE_OUTPUT}\n${script}\n`);
+        chmodSync(stubPath, 0o755);
+
+        return stubPath;
+    };
+
+    /**
+     * Create Job Action
+     * @param ffmpegPath Path of the ffmpeg binary.
+     * @param config Job Action Configuration
+     * @returns FFmpeg Job Action
+     */
+    const createJobAction = (ffmpegPath: string, config: Record<string, unknown> = {}) => new FFmpegJobAction(Logger.withPrefix('FFmpeg'), {
+        jobAction: 'FFmpeg',
+        name: 'FFmpeg',
+        ffmpegPath: ffmpegPath,
+        ...config
+    });
+
+    /**
+     * Next Progress
+     * @returns Resolves once the job reports progress.
+     */
+    const nextProgress = () => new Promise<void>(resolve => progressed = resolve);
+
+    beforeEach(() => {
+        path = mkdtempSync(join(tmpdir(), 'compressarr-'));
+        progress = [];
+        progressed = () => undefined;
+
+        writeFileSync(join(path, 'movie.mkv'), 'source');
+
+        job = new Job(Logger.withPrefix('movie'), {
+            name: 'movie',
+            srcPath: join(path, 'movie.mkv'),
+            tempPath: join(path, 'job'),
+            info: { streams: [{ index: 0, codec_type: 'video', codec_name: 'h264', duration: '10.0' } as FFProbeStream] }
+        }, reported => {
+            progress.push(reported);
+            progressed();
+        });
+    });
+
+    afterEach(() => {
+        removeSync(path);
+    });
+
+    it('runs ffmpeg with the rendered arguments and makes its output the working file', async () => {
+        const jobAction = createJobAction(writeStub([
+            'printf \'fps=24.5\\nout_time_us=5000000\\nspeed=2.5x\\nprogress=continue\\n\'',
+            'printf \'out_time_us=10000000\\nprogress=end\\n\'',
+            'echo transcoded > "$output"'
+        ].join('\n')), {
+            arguments: ['-i', '{input}', '-metadata', 'comment={video.codec}', '{output}'],
+            extension: 'mp4'
+        });
+
+        const result = await jobAction.start(job, new AbortController().signal);
+        const output = join(path, 'job', 'movie-1.mp4');
+
+        expect(readFileSync(join(path, 'arguments.txt'), 'utf8').split('\n')).toEqual([
+            '-hide_banner', '-nostdin', '-nostats', '-y', '-progress', 'pipe:1',
+            '-i', join(path, 'movie.mkv'), '-metadata', 'comment=h264', output,
+            ''
+        ]);
+        expect(progress).toEqual([
+            { stage: 'transcoding', percent: 50, eta: 2, fps: 24.5, speed: 2.5 },
+            { stage: 'transcoding', percent: 100, eta: 0, fps: 24.5, speed: 2.5 }
+        ]);
+        expect(result.outcome).toBe(JobActionOutcome.CHANGED);
+        expect(result.metrics).toEqual({ seconds: expect.any(Number), speed: 2.5 });
+        expect(job.getSrcPath()).toBe(output);
+        expect(readFileSync(output, 'utf8')).toBe('transcoded\n');
+    });
+
+    it('keeps the extension of the working file unless another one is configured', async () => {
+        await createJobAction(writeStub('echo transcoded > "$output"')).start(job, new AbortController().signal);
+
+        expect(job.getSrcPath()).toBe(join(path, 'job', 'movie-1.mkv'));
+    });
+
+    it('fails if ffmpeg finished without writing its output', async () => {
+        const jobAction = createJobAction(writeStub('exit 0'));
+
+        await expect(jobAction.start(job, new AbortController().signal))
+            .rejects.toThrow(`ffmpeg finished without writing ${join(path, 'job', 'movie-1.mkv')}.`);
+        expect(job.getSrcPath()).toBe(join(path, 'movie.mkv'));
+    });
+
+    it('fails for good if the arguments aren\'t a list of strings', async () => {
+        const start = createJobAction(writeStub('exit 0'), { arguments: '-i {input} {output}' }).start(job, new AbortController().signal);
+
+        await expect(start).rejects.toBeInstanceOf(JobFailedError);
+        await expect(start).rejects.toMatchObject({ message: 'The arguments of FFmpeg must be a list of strings.', retryable: false });
+    });
+
+    it('fails for good if an argument uses an unknown placeholder', async () => {
+        const start = createJobAction(writeStub('exit 0'), { arguments: ['-i', '{input}', '{unknown}', '{output}'] }).start(job, new AbortController().signal);
+
+        await expect(start).rejects.toMatchObject({ message: 'Unknown placeholder {unknown} in "{unknown}".', retryable: false });
+    });
+
+    it('fails if ffmpeg exits with an error', async () => {
+        const jobAction = createJobAction(writeStub('echo \'Unknown encoder\' >&2\nexit 1'));
+
+        await expect(jobAction.start(job, new AbortController().signal))
+            .rejects.toThrow(`${join(path, 'ffmpeg')} exited with code 1: Unknown encoder`);
+        expect(job.getSrcPath()).toBe(join(path, 'movie.mkv'));
+    });
+
+    it('fails for good if ffmpeg was not found', async () => {
+        const ffmpegPath = join(path, 'missing', 'ffmpeg');
+        const start = createJobAction(ffmpegPath).start(job, new AbortController().signal);
+
+        await expect(start).rejects.toBeInstanceOf(JobFailedError);
+        await expect(start).rejects.toMatchObject({
+            message: `${ffmpegPath} was not found, set ffmpegPath in the configuration of FFmpeg.`,
+            retryable: false
+        });
+    });
+
+    it('rejects with a kill error once killed', async () => {
+        const jobAction = createJobAction(writeStub(RUN_UNTIL_STOPPED));
+        const start = jobAction.start(job, new AbortController().signal);
+
+        await nextProgress();
+        await jobAction.kill(job.identifier);
+
+        await expect(start).rejects.toBeInstanceOf(KillError);
+    });
+
+    it('rejects with the reason of the signal once aborted', async () => {
+        const controller = new AbortController();
+        const start = createJobAction(writeStub(RUN_UNTIL_STOPPED)).start(job, controller.signal);
+        const reason = new Error('Timed out.');
+
+        await nextProgress();
+        controller.abort(reason);
+
+        await expect(start).rejects.toBe(reason);
+    });
+});
@@ -0,0 +1,146 @@
+import { basename } from 'path';
+
+import { Logging, getErrorMessage } from '@epickris/node-logger';
+import { existsSync } from 'fs-extra';
+
+import { JobActionOutcome, JobActionResult } from './api';
+import { JobActionConfig } from './bridgeService';
+import { JobFailedError } from './errors';
+import { Job } from './job';
+import { ProcessJobAction } from './processJobAction';
+import { createTemplateContext, renderTemplate } from './template';
+
+/** FFmpeg Job Action Configuration */
+export interface FFmpegJobActionConfig extends JobActionConfig {
+
+    /**
+     * Path of the ffmpeg binary, `ffmpeg` from the `PATH` by default.
+     */
+    ffmpegPath?: string;
+
+    /**
+     * Arguments, every argument is a template which can use `{input}`, `{output}` and the values a condition can use.
+     */
+    arguments?: string[];
+
+    /**
+     * Extension of the output, the extension of the working file by default.
+     */
+    extension?: string;
+}
+
+/** FFmpeg Progress, the last values of ffmpeg's `-progress` output. */
+type FFmpegProgress = Record<string, string>;
+
+/**
+ * FFmpeg Job Action
+ * Transcodes the working file with a local ffmpeg binary.
+ */
+export class FFmpegJobAction extends ProcessJobAction {
+
+    /** API Version */
+    static readonly apiVersion = 0.2;
+
+    /**
+     * Default Arguments, keep every stream and re-encode the video as HEVC.
+     */
+    private static readonly DEFAULT_ARGUMENTS = ['-i', '{input}', '-map', '0', '-c', 'copy', '-c:v', 'libx265', '-crf', '28', '{output}'];
+
+    /** Configuration */
+    private readonly config: FFmpegJobActionConfig;
+
+    /**
+     * @param log Log
+     * @param config Job Action Configuration
+     */
+    constructor(log: Logging, config: JobActionConfig) {
+        super(log);
+
+        this.config = config as FFmpegJobActionConfig;
+    }
+
+    /**
+     * Start
+     * @param job Job
+     * @param signal Abort Signal
+     * @returns Job Action Result
+     */
+    async start(job: Job, signal: AbortSignal): Promise<JobActionResult> {
+        const templates = this.config.arguments || FFmpegJobAction.DEFAULT_ARGUMENTS;
+
+        if (!Array.isArray(templates) || templates.some(template => typeof template !== 'string')) {
+            throw new JobFailedError(`The arguments of ${this.config.name} must be a list of strings.`, false);
+        }
+
+        const output = job.getDestPath(this.config.extension || job.getSrcExt());
+        const context = await createTemplateContext(job, { input: job.getSrcPath(), output: output });
+
+        let args: string[];
+
+        try {
+            args = templates.map(template => renderTemplate(template, context));
+        } catch (error) {
+            throw new JobFailedError(getErrorMessage(error), false);
+        }
+
+        const startedAt = Date.now();
+        const duration = typeof context.duration === 'number' ? context.duration : undefined;
+        const progress: FFmpegProgress = {};
+
+        await this.runProcess(job, {
+            command: this.config.ffmpegPath || 'ffmpeg',
+            args: ['-hide_banner', '-nostdin', '-nostats', '-y', '-progress', 'pipe:1', ...args],
+            notFoundHint: `set ffmpegPath in the configuration of ${this.config.name}`,
+            onStdout: line => {
+                const separator = line.indexOf('=');
+
+                if (separator === -1) return;
+
+                const key = line.slice(0, separator).trim();
+
+                progress[key] = line.slice(separator + 1).trim();
+
+                // Every block of progress output ends with the progress key.
+                if (key === 'progress') this.reportProgress(job, progress, duration);
+            }
+        }, signal);
+
+        if (!existsSync(output)) {
+            throw new JobFailedError(`ffmpeg finished without writing ${output}.`);
+        }
+
+        const speed = parseFloat(progress.speed);
+
+        job.setPath(basename(output));
+
+        return {
+            outcome: JobActionOutcome.CHANGED,
+            metrics: {
+                seconds: (Date.now() - startedAt) / 1000,
+                ...(!isNaN(speed) ? { speed: speed } : {})
+            }
+        };
+    }
+
+    /**
+     * Report Progress
+     * @param job Job
+     * @param progress FFmpeg Progress
+     * @param duration Duration of the input in seconds.
+     */
+    private reportProgress(job: Job, progress: FFmpegProgress, duration?: number): void {
+        // ffmpeg reports out_time_ms in microseconds as well, it is the only key older versions know.
+        const outTime = parseInt(progress.out_time_us || progress.out_time_ms, 10) / 1000000;
+        const fps = parseFloat(progress.fps);
+        const speed = parseFloat(progress.speed);
+        const finished = progress.progress === 'end';
+
+        job.reportProgress({
+            stage: 'transcoding',
+            percent: finished ? 100 : duration && !isNaN(outTime) ? Math.min(100, Math.max(0, outTime / duration * 100)) : undefined,
+            eta: duration && !isNaN(outTime) && speed > 0 ? Math.max(0, (duration - outTime) / speed) : undefined,
+            fps: !isNaN(fps) ? fps : undefined,
+            speed: !isNaN(speed) ? speed : undefined
+        });
+    }
+}
@@ -0,0 +1,148 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { Logger } from '@epickris/node-logger';
+import { chmodSync, mkdtempSync, readFileSync, removeSync, writeFileSync } from 'fs-extra';
+
+import { JobActionOutcome } from './api';
+import { JobFailedError, KillError, TimeoutError } from './errors';
+import { HandBrakeJobAction } from './handBrakeJobAction';
+import { Job, JobProgress } from './job';
+
+/** Script reading the value of `--output` from the arguments into `$output`. */
+const PARSE_OUTPUT = 'while [ $# -gt 0 ]; do [ "$1" = "--output" ] && output="$2"; shift; done';
+
+/** Script reporting some progress, then waiting to be stopped. */
+const RUN_UNTIL_STOPPED = 'echo \'Encoding: task 1 of 1, 1.00 %\'\nexec sleep 30';
+
+describe('HandBrakeJobAction', () => {
+    let path: string;
+    let job: Job;
+    let progress: JobProgress[];
+    let progressed: () => void;
+
+    /**
+     * Write Stub
+     * @param script Script standing in for HandBrakeCLI.
+     * @returns Path of the stub.
+     */
+    const writeStub = (script: string): string => {
+        const stubPath = join(path, 'HandBrakeCLI');
+
+        writeFileSync(stubPath, `#!/bin/sh\n${PARSE_OUTPUT}\n${script}\n`);
+        chmodSync(stubPath, 0o755);
+
+        return stubPath;
+    };
+
+    /**
+     * Create Job Action
+     * @param handBrakePath Path of the HandBrakeCLI binary.
+     * @returns HandBrake Job Action
+     */
+    const createJobAction = (handBrakePath: string) => new HandBrakeJobAction(Logger.withPrefix('HandBrake'), {
+        jobAction: 'HandBrake',
+        name: 'HandBrake',
+        handBrakePath: handBrakePath,
+        preset: 'Fast 1080p30'
+    });
+
+    /**
+     * Next Progress
+     * @returns Resolves once the job reports progress.
+     */
+    const nextProgress = () => new Promise<void>(resolve => progressed = resolve);
+
+    beforeEach(() => {
+        path = mkdtempSync(join(tmpdir(), 'compressarr-'));
+        progress = [];
+        progressed = () => undefined;
+
+        writeFileSync(join(path, 'movie.mkv'), 'source');
+
+        job = new Job(Logger.withPrefix('movie'), {
+            name: 'movie',
+            srcPath: join(path, 'movie.mkv'),
+            tempPath: join(path, 'job'),
+            info: { streams: [] }
+        }, reported => {
+            progress.push(reported);
+            progressed();
+        });
+    });
+
+    afterEach(() => {
+        removeSync(path);
+    });
+
+    it('reports the progress of HandBrake and makes its output the working file', async () => {
+        const jobAction = createJobAction(writeStub([
+            'printf \'Encoding: task 1 of 2, 50.00 %% (45.67 fps, avg 50.12 fps, ETA 00h01m23s)\\r\'',
+            'printf \'Encoding: task 2 of 2, 100.00 %%\\n\'',
+            'echo \'Muxing: this may take awhile...\'',
+            'echo transcoded > "$output"'
+        ].join('\n')));
+
+        const result = await jobAction.start(job, new AbortController().signal);
+
+        expect(progress).toEqual([
+            { stage: 'transcoding', percent: 25, eta: 83, fps: 45.67 },
+            { stage: 'transcoding', percent: 100, eta: undefined, fps: undefined },
+            { stage: 'muxing' }
+        ]);
+        expect(result.outcome).toBe(JobActionOutcome.CHANGED);
+        expect(result.metrics).toEqual({ seconds: expect.any(Number), fps: 50.12 });
+        expect(job.getSrcPath()).toBe(join(path, 'job', 'movie-1.mkv'));
+        expect(readFileSync(job.getSrcPath(), 'utf8')).toBe('transcoded\n');
+    });
+
+    it('fails if HandBrake finished without writing its output', async () => {
+        const jobAction = createJobAction(writeStub('exit 0'));
+
+        await expect(jobAction.start(job, new AbortController().signal))
+            .rejects.toThrow(`HandBrakeCLI finished without writing ${join(path, 'job', 'movie-1.mkv')}.`);
+        expect(job.getSrcPath()).toBe(join(path, 'movie.mkv'));
+    });
+
+    it('fails if HandBrake exits with an error', async () => {
+        const jobAction = createJobAction(writeStub('echo \'Invalid preset\' >&2\nexit 3'));
+
+        await expect(jobAction.start(job, new AbortController().signal))
+            .rejects.toThrow(`${join(path, 'HandBrakeCLI')} exited with code 3: Invalid preset`);
+    });
+
+    it('fails for good if HandBrakeCLI was not found', async () => {
+        const handBrakePath = join(path, 'missing', 'HandBrakeCLI');
+        const start = createJobAction(handBrakePath).start(job, new AbortController().signal);
+
+        await expect(start).rejects.toBeInstanceOf(JobFailedError);
+        await expect(start).rejects.toMatchObject({
+            message: `${handBrakePath} was not found, install HandBrakeCLI or set handBrakePath in the configuration of HandBrake.`,
+            retryable: false
+        });
+    });
+
+    it('rejects with a kill error once killed', async () => {
+        const jobAction = createJobAction(writeStub(RUN_UNTIL_STOPPED));
+        const started = nextProgress();
+        const start = jobAction.start(job, new AbortController().signal);
+
+        await started;
+        await jobAction.kill(job.identifier);
+
+        await expect(start).rejects.toBeInstanceOf(KillError);
+    });
+
+    it('rejects with the reason of the abort signal once aborted', async () => {
+        const jobAction = createJobAction(writeStub(RUN_UNTIL_STOPPED));
+        const controller = new AbortController();
+        const reason = new TimeoutError('HandBrake timed out.');
+        const started = nextProgress();
+        const start = jobAction.start(job, controller.signal);
+
+        await started;
+        controller.abort(reason);
+
+        await expect(start).rejects.toBe(reason);
+    });
+});
@@ -0,0 +1,201 @@
+import { basename } from 'path';
+
+import { Logging, getErrorMessage } from '@epickris/node-logger';
+import { existsSync } from 'fs-extra';
+
+import { JobActionOutcome, JobActionResult } from './api';
+import { JobActionConfig } from './bridgeService';
+import { JobFailedError } from './errors';
+import { Job } from './job';
+import { ProcessJobAction } from './processJobAction';
+import { createTemplateContext, renderTemplate } from './template';
+
+/** HandBrake Job Action Configuration */
+export interface HandBrakeJobActionConfig extends JobActionConfig {
+
+    /**
+     * Path of the HandBrakeCLI binary, `HandBrakeCLI` from the `PATH` by default.
+     */
+    handBrakePath?: string;
+
+    /**
+     * Preset, a built-in preset like `Fast 1080p30` or one of the preset file.
+     */
+    preset: string;
+
+    /**
+     * Preset file exported from HandBrake, its presets can be used next to the built-in ones.
+     */
+    presetFile?: string;
+
+    /**
+     * Extension of the output, which decides the container.
+     * The extension of the working file by default if HandBrake can write it, `mkv` otherwise.
+     */
+    extension?: string;
+
+    /**
+     * Additional arguments, every argument is a template which can use `{input}`, `{output}` and the values a condition can use.
+     */
+    arguments?: string[];
+}
+
+/**
+ * HandBrake Job Action
+ * Transcodes the working file with a HandBrake preset through a local HandBrakeCLI binary.
+ */
+export class HandBrakeJobAction extends ProcessJobAction {
+
+    /** API Version */
+    static readonly apiVersion = 0.2;
+
+    /**
+     * HandBrake Formats by Extension
+     */
+    private static readonly FORMATS: Record<string, string> = {
+        mp4: 'av_mp4',
+        m4v: 'av_mp4',
+        mkv: 'av_mkv',
+        webm: 'av_webm'
+    };
+
+    /**
+     * Progress Pattern, e.g. `Encoding: task 1 of 2, 12.34 % (45.67 fps, avg 50.12 fps, ETA 00h01m23s)`.
+     */
+    private static readonly PROGRESS_PATTERN = /Encoding: task (\d+) of (\d+), ([\d.]+) %(?: \(([\d.]+) fps, avg ([\d.]+) fps, ETA (\d+)h(\d+)m(\d+)s\))?/;
+
+    /** HandBrake finishes the file it is writing on SIGINT. */
+    protected readonly stopSignal = 'SIGINT';
+
+    /** Configuration */
+    private readonly config: HandBrakeJobActionConfig;
+
+    /**
+     * @param log Log
+     * @param config Job Action Configuration
+     */
+    constructor(log: Logging, config: JobActionConfig) {
+        super(log);
+
+        this.config = config as HandBrakeJobActionConfig;
+    }
+
+    /**
+     * Start
+     * @param job Job
+     * @param signal Abort Signal
+     * @returns Job Action Result
+     */
+    async start(job: Job, signal: AbortSignal): Promise<JobActionResult> {
+        const { preset, presetFile } = this.config;
+        const templates = this.config.arguments || [];
+
+        if (typeof preset !== 'string' || preset === '') {
+            throw new JobFailedError(`${this.config.name} has no preset configured.`, false);
+        }
+
+        if (!Array.isArray(templates) || templates.some(template => typeof template !== 'string')) {
+            throw new JobFailedError(`The arguments of ${this.config.name} must be a list of strings.`, false);
+        }
+
+        const extension = (this.config.extension || this.getDefaultExtension(job)).replace(/^\./, '').toLowerCase();
+        const format = HandBrakeJobAction.FORMATS[extension];
+
+        if (!format) {
+            throw new JobFailedError(`HandBrake can't write ${extension} files, use one of ${Object.keys(HandBrakeJobAction.FORMATS).join(', ')}.`, false);
+        }
+
+        const input = job.getSrcPath();
+        const output = job.getDestPath(extension);
+        const context = await createTemplateContext(job, { input: input, output: output });
+
+        let args: string[];
+
+        try {
+            args = templates.map(template => renderTemplate(template, context));
+        } catch (error) {
+            throw new JobFailedError(getErrorMessage(error), false);
+        }
+
+        const startedAt = Date.now();
+        let fps: number | undefined;
+
+        await this.runProcess(job, {
+            command: this.config.handBrakePath || 'HandBrakeCLI',
+            args: [
+                ...(presetFile ? ['--preset-import-file', presetFile] : []),
+                '--preset', preset,
+                '--input', input,
+                '--output', output,
+                '--format', format,
+                ...args
+            ],
+            notFoundHint: `install HandBrakeCLI or set handBrakePath in the configuration of ${this.config.name}`,
+            onStdout: line => {
+                const averageFps = this.reportProgress(job, line);
+
+                if (averageFps !== undefined) fps = averageFps;
+            }
+        }, signal);
+
+        if (!existsSync(output)) {
+            throw new JobFailedError(`HandBrakeCLI finished without writing ${output}.`);
+        }
+
+        job.setPath(basename(output));
+
+        return {
+            outcome: JobActionOutcome.CHANGED,
+            metrics: {
+                seconds: (Date.now() - startedAt) / 1000,
+                ...(fps !== undefined ? { fps: fps } : {})
+            }
+        };
+    }
+
+    /**
+     * Get Default Extension
+     * @param job Job
+     * @returns Extension of the working file if HandBrake can write it, `mkv` otherwise.
+     */
+    private getDefaultExtension(job: Job): string {
+        const extension = job.getSrcExt().replace(/^\./, '').toLowerCase();
+
+        return HandBrakeJobAction.FORMATS[extension] ? extension : 'mkv';
+    }
+
+    /**
+     * Report Progress
+     * HandBrake counts every pass as a task, the percent covers all of them.
+     * @param job Job
+     * @param line Line of HandBrake's output.
+     * @returns Average frames per second, if the line reported them.
+     */
+    private reportProgress(job: Job, line: string): number | undefined {
+        if (line.startsWith('Muxing')) {
+            job.reportProgress({ stage: 'muxing' });
+
+            return undefined;
+        }
+
+        const match = HandBrakeJobAction.PROGRESS_PATTERN.exec(line);
+
+        if (!match) return undefined;
+
+        const task = parseInt(match[1], 10);
+        const tasks = parseInt(match[2], 10);
+        const percent = parseFloat(match[3]);
+        const fps = match[4] !== undefined ? parseFloat(match[4]) : undefined;
+        const averageFps = match[5] !== undefined ? parseFloat(match[5]) : undefined;
+        const eta = match[6] !== undefined ? parseInt(match[6], 10) * 3600 + parseInt(match[7], 10) * 60 + parseInt(match[8], 10) : undefined;
+
+        job.reportProgress({
+            stage: 'transcoding',
+            percent: Math.min(100, Math.max(0, (task - 1 + percent / 100) / tasks * 100)),
+            eta: eta,
+            fps: fps
+        });
+
+        return averageFps;
+    }
+}
@@ -1,12 +1,22 @@
 /**
- * Export API const enums.
+ * Export API const enums and constants.
  */
-export { APIEvent, PluginType } from './api';
+export { APIEvent, JOB_ACTION_RESULT_API_VERSION, JobActionOutcome, PluginType } from './api';
 
 /**
  * Export types for basically everything but the actual API implementation.
  */
-export type { API, JobActionIdentifier, JobActionName, JobActionPlugin, JobActionPluginConstructor, JobIdentifier, PluginIdentifier, PluginInitializer, PluginName, ScopedPluginName } from './api';
+export type { API, FailedJob, RecycledMedia, JobActionArtifact, JobActionIdentifier, JobActionName, JobActionPlugin, JobActionPluginConstructor, JobActionResult, JobIdentifier, PluginIdentifier, PluginInitializer, PluginName, ScopedPluginName } from './api';
+
+/**
+ * Export job registry const enums.
+ */
+export { JobState } from './jobRegistry';
+
+/**
+ * Export job registry types.
+ */
+export type { JobStatus } from './jobRegistry';
 
 /**
  * Export server types.
@@ -16,7 +26,12 @@ export type { CompressarrOptions } from './server';
 /**
  * Export bridge types.
  */
-export type { CompressarrConfig, JobActionConfig } from './bridgeService';
+export type { CompressarrConfig, ConcurrencyConfig, JobActionConfig, PublishPolicyConfig, RecycleBinConfig, ScheduleConfig, ScheduleWindow, ValidationConfig } from './bridgeService';
+
+/**
+ * Export schedule const enums.
+ */
+export { OutsideWindowAction } from './schedule';
 
 /**
  * Export User Types.
@@ -33,6 +48,13 @@ export { LogLevel } from '@epickris/node-logger';
  */
 export type { Logger, Logging } from '@epickris/node-logger';
 
-export type { Job } from './job';
+export type { Job, JobProgress } from './job';
+
+export type { MediaInfo, MediaStream } from './probe';
+
+export type { CommandJobActionConfig } from './commandJobAction';
+export type { FFmpegJobActionConfig } from './ffmpegJobAction';
+export type { HandBrakeJobActionConfig } from './handBrakeJobAction';
+export type { MetadataJobActionConfig } from './metadataJobAction';
 
-export { KillError } from './errors';
\ No newline at end of file
+export { JobFailedError, KillError, TimeoutError } from './errors';
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { Logger } from '@epickris/node-logger';
+import { ensureDirSync, existsSync, mkdtempSync, removeSync, writeFileSync } from 'fs-extra';
+
+import { Job } from './job';
+
+describe('Job', () => {
+    let path: string;
+    let tempPath: string;
+    let job: Job;
+
+    beforeEach(() => {
+        path = mkdtempSync(join(tmpdir(), 'compressarr-'));
+        tempPath = join(path, 'job');
+
+        writeFileSync(join(path, 'movie.mkv'), 'source');
+
+        job = new Job(Logger.withPrefix('movie'), {
+            name: 'movie',
+            srcPath: join(path, 'movie.mkv'),
+            tempPath: tempPath,
+            info: { streams: [] }
+        });
+    });
+
+    afterEach(() => {
+        removeSync(path);
+    });
+
+    describe('getDestPath', () => {
+        it('creates the temporary path and hands out the same destination until the working file changes', () => {
+            expect(job.getDestPath('mkv')).toBe(join(tempPath, 'movie-1.mkv'));
+            expect(existsSync(tempPath)).toBe(true);
+            expect(job.getDestPath('.mp4')).toBe(join(tempPath, 'movie-1.mp4'));
+            expect(job.getDestPath()).toBe(join(tempPath, 'movie-1'));
+        });
+
+        it('skips destinations which are taken with or without the extension', () => {
+            ensureDirSync(tempPath);
+            writeFileSync(join(tempPath, 'movie-1'), '');
+            writeFileSync(join(tempPath, 'movie-2.mkv'), '');
+
+            expect(job.getDestPath('mkv')).toBe(join(tempPath, 'movie-3.mkv'));
+        });
+
+        it('hands out a new destination once the working file changes', () => {
+            writeFileSync(job.getDestPath('mkv'), 'output');
+            job.setPath('movie-1.mkv');
+
+            expect(job.getDestPath('mkv')).toBe(join(tempPath, 'movie-2.mkv'));
+        });
+
+        it('never hands out the working file, even if it is missing', () => {
+            job.setPath('movie-1.mkv');
+
+            expect(job.getDestPath('mkv')).toBe(join(tempPath, 'movie-2.mkv'));
+            expect(job.getDestPath('mp4')).toBe(join(tempPath, 'movie-2.mp4'));
+        });
+    });
+});
@@ -1,16 +1,46 @@
 import { extname, join } from 'path';
 
-import { Logging } from '@epickris/node-logger';
-import { existsSync, remove } from 'fs-extra';
+import { Logging, getError } from '@epickris/node-logger';
+import { ensureDirSync, existsSync, remove } from 'fs-extra';
 
-import { JobIdentifier } from './api';
+import { JobIdentifier, LibraryName } from './api';
 import { JobConfig } from './bridgeService';
+import { MediaInfo, probe } from './probe';
+
+/** Job Progress */
+export interface JobProgress {
+
+    /** Percent, from 0 to 100. */
+    percent?: number;
+
+    /** Estimated seconds remaining. */
+    eta?: number;
+
+    /** Frames per second. */
+    fps?: number;
+
+    /** Speed as a multiple of real time. */
+    speed?: number;
+
+    /** Stage */
+    stage?: string;
+}
+
+/** Job Progress Listener */
+export type JobProgressListener = (progress: JobProgress) => void;
 
 /** Job */
 export class Job {
 
-    /** Log */
-    private readonly log: Logging;
+    /**
+     * Minimum milliseconds between two progress reports reaching the listener.
+     */
+    private static readonly PROGRESS_INTERVAL = 1000;
+
+    /**
+     * Log, messages of job actions about this job belong here as well.
+     */
+    public readonly log: Logging;
 
     /** Name */
     private readonly name: string;
@@ -24,23 +54,42 @@ export class Job {
     /** Identifier */
     public readonly identifier: JobIdentifier;
 
+    /** Library */
+    public readonly library?: LibraryName;
+
     /** Temporary Source Path */
     private tempSrcPath: string | undefined;
 
     /** Temporary Destination Path */
     private tempDestPath: string | undefined;
 
+    /** Progress Listener */
+    private readonly progressListener?: JobProgressListener;
+
+    /** Last Progress */
+    private lastProgress: JobProgress | undefined;
+
+    /** Last Progress Reported At */
+    private lastProgressReportedAt = 0;
+
+    /** Media Info of the working file. */
+    private info: Promise<MediaInfo> | undefined;
+
     /**
      * @param log Log
      * @param config Job Configuration
-     * @param api API
+     * @param progressListener Progress Listener
      */
-    constructor(log: Logging, config: JobConfig) {
+    constructor(log: Logging, config: JobConfig, progressListener?: JobProgressListener) {
         this.log = log;
+        this.progressListener = progressListener;
         this.name = config.name;
         this.srcPath = config.srcPath;
         this.tempPath = config.tempPath;
         this.identifier = this.srcPath;
+        this.library = config.library;
+
+        if (config.info) this.info = Promise.resolve(config.info);
 
         log.info('Job finished initializing!');
     }
@@ -63,45 +112,100 @@ export class Job {
         return extname(this.getSrcPath());
     }
 
+    /**
+     * Get Info
+     * The working file is probed once, the result is shared by every job action until the working file changes.
+     * @returns Media Info of the working file.
+     */
+    getInfo(): Promise<MediaInfo> {
+        if (!this.info) {
+            const info = this.probe();
+
+            // A failed probe isn't kept, so the next caller tries again.
+            info.catch(() => {
+                if (this.info === info) this.info = undefined;
+            });
+
+            this.info = info;
+        }
+
+        return this.info;
+    }
+
+    /**
+     * Probe
+     * Probes a file without touching the cached info, e.g. an intermediate output which isn't the working file yet.
+     * @param path Path, the working file when left out.
+     * @returns Media Info
+     */
+    probe(path: string = this.getSrcPath()): Promise<MediaInfo> {
+        return probe(path);
+    }
+
     /**
      * Get Destination Path
+     * The temporary path of the job is created on the first call, so the destination can be written straight away.
      * @returns Destination Path
      */
     getDestPath(ext?: string): string {
-        if (!this.tempDestPath) this.tempDestPath = this.nextAvailableDest(this.tempPath);
+        const extension = ext ? `.${ext.replace(/^\.+/, '')}` : '';
 
-        if (ext) {
-            ext.replace(/^\.+/, '');
+        // The working file is never handed out as the destination, a job action would overwrite its own input.
+        if (!this.tempDestPath || `${this.tempDestPath}${extension}` === this.getSrcPath()) {
+            ensureDirSync(this.tempPath);
 
-            return `${this.tempDestPath}.${ext}`;
+            this.tempDestPath = this.nextAvailableDest(this.tempPath, extension);
         }
 
-        return this.tempDestPath;
+        return `${this.tempDestPath}${extension}`;
     }
 
     /**
      * Set Path
      * @param path Path
      */
-    setPath(path: string) {
+    setPath(path: string): void {
         if (this.tempSrcPath) remove(this.tempSrcPath);
 
         this.tempSrcPath = undefined;
         this.tempDestPath = undefined;
         this.tempSrcPath = join(this.tempPath, path);
+        this.info = undefined;
+
+        // Probed straight away, so the next job action doesn't wait for it.
+        this.getInfo().catch(error => this.log.debug(getError(error)));
+    }
+
+    /**
+     * Report Progress
+     * Reports are throttled, only a change of stage or completion is passed on straight away.
+     * @param progress Progress
+     */
+    reportProgress(progress: JobProgress): void {
+        const now = Date.now();
+        const stageChanged = !this.lastProgress || this.lastProgress.stage !== progress.stage;
+        const completed = progress.percent !== undefined && progress.percent >= 100;
+
+        if (!stageChanged && !completed && now - this.lastProgressReportedAt < Job.PROGRESS_INTERVAL) return;
+
+        this.lastProgress = progress;
+        this.lastProgressReportedAt = now;
+
+        if (this.progressListener) this.progressListener({ ...progress });
     }
 
     /**
      * Next Available Destination
      * @param path Path
+     * @param extension Extension including its dot, the destination must be available with it as well.
      * @param i I
      * @returns Next Available Destination
      */
-    private nextAvailableDest(path: string, i = 1): string {
+    private nextAvailableDest(path: string, extension = '', i = 1): string {
         const dest = join(path, `${this.name}-${i}`);
 
-        if (existsSync(dest)) {
-            return this.nextAvailableDest(path, i++);
+        if (existsSync(dest) || existsSync(`${dest}${extension}`) || `${dest}${extension}` === this.getSrcPath()) {
+            return this.nextAvailableDest(path, extension, i + 1);
         } else {
             return dest;
         }
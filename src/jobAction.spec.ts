@@ -0,0 +1,231 @@
+import { Logger } from '@epickris/node-logger';
+
+import { JobActionOutcome, JobActionPlugin, JobActionResult } from './api';
+import { TimeoutError } from './errors';
+import { Job } from './job';
+import { adaptJobAction, JobAction, JobActionTimeout, LegacyJobAction, runJobAction } from './jobAction';
+
+jest.mock('./probe', () => ({
+    probe: jest.fn(() => Promise.reject(new Error('not probed')))
+}));
+
+/**
+ * Create Job
+ * @returns Job
+ */
+const createJob = (): Job => new Job(Logger.internal, {
+    name: 'movie',
+    srcPath: '/library/movie.mkv',
+    tempPath: '/jobs/movie'
+});
+
+/**
+ * Create Legacy Job Action Plugin
+ * @param start Start, resolves with the job.
+ * @returns Job Action Plugin
+ */
+const createJobActionPlugin = (start: (job: Job) => void = () => undefined): JobActionPlugin => ({
+    start: jest.fn(async (job: Job) => {
+        start(job);
+
+        return job;
+    }),
+    kill: jest.fn(() => Promise.resolve())
+});
+
+describe('adaptJobAction', () => {
+    it('leaves job actions which resolve with a result alone', () => {
+        const jobActionPlugin = createJobActionPlugin();
+
+        expect(adaptJobAction(jobActionPlugin, 0.2)).toBe(jobActionPlugin);
+    });
+
+    it('adapts job actions which don\'t declare an API version', () => {
+        expect(adaptJobAction(createJobActionPlugin())).toBeInstanceOf(LegacyJobAction);
+        expect(adaptJobAction(createJobActionPlugin(), 0.1)).toBeInstanceOf(LegacyJobAction);
+    });
+});
+
+describe('LegacyJobAction', () => {
+    it('resolves with changed when the job action moved the working file', async () => {
+        const jobAction = new LegacyJobAction(createJobActionPlugin(job => job.setPath('movie-1.mkv')));
+
+        await expect(jobAction.start(createJob(), new AbortController().signal)).resolves.toEqual({ outcome: JobActionOutcome.CHANGED });
+    });
+
+    it('resolves with unchanged when the job action left the working file alone', async () => {
+        const jobAction = new LegacyJobAction(createJobActionPlugin());
+
+        await expect(jobAction.start(createJob(), new AbortController().signal)).resolves.toEqual({ outcome: JobActionOutcome.UNCHANGED });
+    });
+
+    it('kills the job action once the signal is aborted', async () => {
+        const controller = new AbortController();
+        const jobActionPlugin = createJobActionPlugin(() => controller.abort());
+
+        await new LegacyJobAction(jobActionPlugin).start(createJob(), controller.signal);
+
+        expect(jobActionPlugin.kill).toHaveBeenCalledWith('/library/movie.mkv');
+    });
+
+    it('passes kill, pause and resume on', async () => {
+        const jobActionPlugin = {
+            ...createJobActionPlugin(),
+            pause: jest.fn(() => Promise.resolve()),
+            resume: jest.fn(() => Promise.resolve())
+        };
+        const jobAction = new LegacyJobAction(jobActionPlugin);
+
+        await jobAction.kill('/library/movie.mkv');
+        await (jobAction.pause as (identifier: string) => Promise<void>)('/library/movie.mkv');
+        await (jobAction.resume as (identifier: string) => Promise<void>)('/library/movie.mkv');
+
+        expect(jobActionPlugin.kill).toHaveBeenCalledWith('/library/movie.mkv');
+        expect(jobActionPlugin.pause).toHaveBeenCalledWith('/library/movie.mkv');
+        expect(jobActionPlugin.resume).toHaveBeenCalledWith('/library/movie.mkv');
+    });
+
+    it('only offers pause and resume when the job action supports them', () => {
+        const jobAction = new LegacyJobAction(createJobActionPlugin());
+
+        expect(jobAction.pause).toBeUndefined();
+        expect(jobAction.resume).toBeUndefined();
+    });
+});
+
+describe('runJobAction', () => {
+    const result: JobActionResult = { outcome: JobActionOutcome.CHANGED };
+
+    /**
+     * Create Job Action
+     * @param honorsSignal Whether the job action stops once its signal is aborted, it never finishes on its own.
+     * @returns Job Action
+     */
+    const createJobAction = (honorsSignal: boolean): JobAction => ({
+        start: jest.fn((job: Job, signal: AbortSignal) => new Promise<JobActionResult>((resolve, reject) => {
+            if (honorsSignal) signal.addEventListener('abort', () => reject(signal.reason));
+        })),
+        kill: jest.fn(() => Promise.resolve())
+    });
+
+    /**
+     * Create Timeout
+     * @param seconds Seconds
+     * @param elapsed Elapsed Seconds
+     * @returns Job Action Timeout
+     */
+    const createTimeout = (seconds: number, elapsed = 0): JobActionTimeout => ({
+        seconds: seconds,
+        elapsed: elapsed,
+        message: `Timed out after ${seconds} seconds.`
+    });
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('resolves with the result of the job action', async () => {
+        const jobAction: JobAction = {
+            start: jest.fn(() => Promise.resolve(result)),
+            kill: jest.fn(() => Promise.resolve())
+        };
+
+        await expect(runJobAction(jobAction, createJob(), {
+            controller: new AbortController(),
+            timeouts: [createTimeout(10)],
+            gracePeriod: 30,
+            isPaused: () => false
+        })).resolves.toBe(result);
+    });
+
+    it('aborts the job action once a timeout is reached', async () => {
+        const jobAction = createJobAction(true);
+        const controller = new AbortController();
+        const run = runJobAction(jobAction, createJob(), {
+            controller: controller,
+            timeouts: [createTimeout(10), createTimeout(5, 3)],
+            gracePeriod: 30,
+            isPaused: () => false
+        });
+
+        run.catch(() => undefined);
+        jest.advanceTimersByTime(1000);
+
+        expect(controller.signal.aborted).toBe(false);
+
+        jest.advanceTimersByTime(1000);
+
+        await expect(run).rejects.toThrow(new TimeoutError('Timed out after 5 seconds.'));
+        expect(jobAction.kill).not.toHaveBeenCalled();
+    });
+
+    it('doesn\'t count the time spent paused', async () => {
+        const controller = new AbortController();
+        let paused = true;
+        const timeout = createTimeout(2);
+        const run = runJobAction(createJobAction(true), createJob(), {
+            controller: controller,
+            timeouts: [timeout],
+            gracePeriod: 30,
+            isPaused: () => paused
+        });
+
+        run.catch(() => undefined);
+        jest.advanceTimersByTime(10000);
+
+        expect(timeout.elapsed).toBe(0);
+
+        paused = false;
+        jest.advanceTimersByTime(2000);
+
+        await expect(run).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    it('kills a job action which doesn\'t stop within the grace period', async () => {
+        const jobAction = createJobAction(false);
+        const controller = new AbortController();
+        const run = runJobAction(jobAction, createJob(), {
+            controller: controller,
+            timeouts: [createTimeout(1)],
+            gracePeriod: 30,
+            isPaused: () => false
+        });
+
+        run.catch(() => undefined);
+        jest.advanceTimersByTime(1000);
+
+        expect(controller.signal.aborted).toBe(true);
+
+        jest.advanceTimersByTime(29999);
+
+        expect(jobAction.kill).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(1);
+
+        expect(jobAction.kill).toHaveBeenCalledWith('/library/movie.mkv');
+        await expect(run).rejects.toThrow('Timed out after 1 seconds.');
+    });
+
+    it('throws a result away which comes in after the abort', async () => {
+        const controller = new AbortController();
+        const jobAction: JobAction = {
+            start: jest.fn(() => {
+                controller.abort(new Error('Cancelled'));
+
+                return Promise.resolve(result);
+            }),
+            kill: jest.fn(() => Promise.resolve())
+        };
+
+        await expect(runJobAction(jobAction, createJob(), {
+            controller: controller,
+            timeouts: [],
+            gracePeriod: 30,
+            isPaused: () => false
+        })).rejects.toThrow('Cancelled');
+    });
+});
@@ -0,0 +1,201 @@
+import { Logger, getError } from '@epickris/node-logger';
+
+import { JOB_ACTION_RESULT_API_VERSION, JobActionOutcome, JobActionPlugin, JobActionResult, JobIdentifier } from './api';
+import { TimeoutError } from './errors';
+import { Job } from './job';
+
+/** Log */
+const log = Logger.internal;
+
+/** Job Action, a job action plugin which resolves with a result. */
+export interface JobAction extends JobActionPlugin {
+
+    /**
+     * Start
+     * @param job Job
+     * @param signal Abort Signal
+     * @returns Job Action Result
+     */
+    start(job: Job, signal: AbortSignal): Promise<JobActionResult>;
+}
+
+/** Job Action Timeout */
+export interface JobActionTimeout {
+
+    /** Seconds allowed. */
+    seconds: number;
+
+    /**
+     * Seconds spent so far, a timeout shared by several runs keeps counting where the last run stopped.
+     */
+    elapsed: number;
+
+    /** Message of the timeout error. */
+    message: string;
+}
+
+/** Job Action Run Options */
+export interface JobActionRunOptions {
+
+    /** Aborted to stop the run. */
+    controller: AbortController;
+
+    /** Timeouts, the run is aborted once any of them is reached. */
+    timeouts: JobActionTimeout[];
+
+    /**
+     * Seconds an aborted job action gets to stop before it is given up on.
+     */
+    gracePeriod: number;
+
+    /**
+     * Is Paused?, time spent paused doesn't count towards the timeouts.
+     */
+    isPaused: () => boolean;
+}
+
+/**
+ * Legacy Job Action
+ * Adapts a job action written against an API version before {@link JOB_ACTION_RESULT_API_VERSION},
+ * the result is derived from whether the working file changed.
+ */
+export class LegacyJobAction implements JobAction {
+
+    /** Job Action Plugin */
+    private readonly jobActionPlugin: JobActionPlugin;
+
+    /** Pause */
+    readonly pause?: (identifier: JobIdentifier) => Promise<void>;
+
+    /** Resume */
+    readonly resume?: (identifier: JobIdentifier) => Promise<void>;
+
+    /**
+     * @param jobActionPlugin Job Action Plugin
+     */
+    constructor(jobActionPlugin: JobActionPlugin) {
+        this.jobActionPlugin = jobActionPlugin;
+
+        const { pause, resume } = jobActionPlugin;
+
+        // Only passed on when the job action supports them, the server checks for them.
+        if (pause) this.pause = identifier => pause.call(jobActionPlugin, identifier);
+        if (resume) this.resume = identifier => resume.call(jobActionPlugin, identifier);
+    }
+
+    /**
+     * Start
+     * The job action doesn't know about the signal, so it is killed once the signal is aborted.
+     * @param job Job
+     * @param signal Abort Signal
+     * @returns Job Action Result
+     */
+    async start(job: Job, signal: AbortSignal): Promise<JobActionResult> {
+        const srcPath = job.getSrcPath();
+        const kill = () => {
+            this.jobActionPlugin.kill(job.identifier).catch(error => log.debug(getError(error)));
+        };
+
+        signal.addEventListener('abort', kill, { once: true });
+
+        try {
+            const returnedJob = await this.jobActionPlugin.start(job, signal) as Job;
+
+            return {
+                outcome: returnedJob.getSrcPath() !== srcPath ? JobActionOutcome.CHANGED : JobActionOutcome.UNCHANGED
+            };
+        } finally {
+            signal.removeEventListener('abort', kill);
+        }
+    }
+
+    /**
+     * Kill
+     * @param identifier Job Identifier
+     */
+    kill(identifier: JobIdentifier): Promise<void> {
+        return this.jobActionPlugin.kill(identifier);
+    }
+}
+
+/**
+ * Adapt Job Action
+ * @param jobActionPlugin Job Action Plugin
+ * @param apiVersion API version the job action declares.
+ * @returns Job Action
+ */
+export function adaptJobAction(jobActionPlugin: JobActionPlugin, apiVersion = 0.1): JobAction {
+    if (apiVersion >= JOB_ACTION_RESULT_API_VERSION) return jobActionPlugin as JobAction;
+
+    return new LegacyJobAction(jobActionPlugin);
+}
+
+/**
+ * Run Job Action
+ * An aborted job action gets the grace period to stop, after that it is given up on and killed,
+ * so a job action which hangs doesn't hold on to its slot forever.
+ * @param jobAction Job Action
+ * @param job Job
+ * @param options Run Options
+ * @returns Job Action Result, rejects with the abort reason once the run was aborted.
+ */
+export function runJobAction(jobAction: JobAction, job: Job, options: JobActionRunOptions): Promise<JobActionResult> {
+    const { controller, timeouts, gracePeriod, isPaused } = options;
+    const signal = controller.signal;
+
+    return new Promise((resolve, reject) => {
+        let graceTimer: NodeJS.Timeout | undefined;
+
+        const timer = timeouts.length > 0 ? setInterval(() => {
+            if (isPaused()) return;
+
+            for (const timeout of timeouts) {
+                timeout.elapsed++;
+            }
+
+            const timeout = timeouts.find(timeout => timeout.elapsed >= timeout.seconds);
+
+            if (timeout) controller.abort(new TimeoutError(timeout.message));
+        }, 1000) : undefined;
+
+        const abort = () => {
+            if (timer) clearInterval(timer);
+
+            graceTimer = setTimeout(() => {
+                log.debug(`Giving up on ${job.identifier} as it didn't stop within ${gracePeriod} seconds.`);
+
+                jobAction.kill(job.identifier).catch(error => log.debug(getError(error)));
+
+                reject(signal.reason);
+            }, gracePeriod * 1000);
+        };
+
+        const settle = () => {
+            if (timer) clearInterval(timer);
+            if (graceTimer) clearTimeout(graceTimer);
+
+            signal.removeEventListener('abort', abort);
+        };
+
+        if (signal.aborted) {
+            abort();
+        } else {
+            signal.addEventListener('abort', abort, { once: true });
+        }
+
+        jobAction.start(job, signal).then(result => {
+            settle();
+
+            // A result coming in after the abort is too late, whatever the job action did is thrown away.
+            if (signal.aborted) {
+                reject(signal.reason);
+            } else {
+                resolve(result);
+            }
+        }, error => {
+            settle();
+
+            reject(signal.aborted ? signal.reason : error);
+        });
+    });
+}
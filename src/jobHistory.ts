@@ -0,0 +1,115 @@
+import { Logger, getError } from '@epickris/node-logger';
+
+import { JobActionResult, LibraryName } from './api';
+import { JobState } from './jobRegistry';
+import { MediaSummary } from './probe';
+import { StorageService } from './storageService';
+
+/** Log */
+const log = Logger.internal;
+
+/** Job Action History Entry */
+export interface JobActionHistoryEntry extends JobActionResult {
+
+    /** Job Action Name */
+    name: string;
+}
+
+/** Job History Entry */
+export interface JobHistoryEntry {
+
+    /** Name */
+    name: string;
+
+    /** Library */
+    library?: LibraryName;
+
+    /** Source Path */
+    srcPath: string;
+
+    /**
+     * Path the output was published to, when it was published.
+     */
+    publishedPath?: string;
+
+    /** Outcome */
+    outcome: JobState;
+
+    /** Reason for a skip, failure or cancellation. */
+    reason?: string;
+
+    /** Source */
+    source?: MediaSummary;
+
+    /** Output */
+    output?: MediaSummary;
+
+    /** Bytes saved by the output, negative when the output is larger. */
+    savedBytes?: number;
+
+    /** Names of the job actions which ran. */
+    jobActions: string[];
+
+    /**
+     * Results of the job actions which ran, in order. Missing from entries recorded before job actions had results.
+     */
+    jobActionResults?: JobActionHistoryEntry[];
+
+    /** Attempts */
+    attempts: number;
+
+    /** Dry Run? */
+    dryRun: boolean;
+
+    /** Started At */
+    startedAt?: string;
+
+    /** Finished At */
+    finishedAt: string;
+
+    /** Wall time of the last run in seconds. */
+    wallTime: number;
+}
+
+/** Job History Details, collected while a job runs. */
+export type JobHistoryDetails = Required<Pick<JobHistoryEntry, 'jobActions' | 'jobActionResults'>> & Partial<Pick<JobHistoryEntry, 'source' | 'output' | 'publishedPath'>>;
+
+/**
+ * Append only history of every finished job.
+ */
+export class JobHistory {
+
+    /** History Item Name */
+    private static readonly HISTORY_ITEM_NAME = 'history.jsonl';
+
+    /** Storage Service */
+    private readonly storageService: StorageService;
+
+    /**
+     * @param storageService Storage Service
+     */
+    constructor(storageService: StorageService) {
+        this.storageService = storageService;
+    }
+
+    /**
+     * Record
+     * @param entry Job History Entry
+     */
+    public record(entry: JobHistoryEntry): void {
+        try {
+            this.storageService.appendLineSync(JobHistory.HISTORY_ITEM_NAME, entry);
+        } catch (error) {
+            log.error(`There was a problem recording ${entry.name} in the job history.`);
+            log.error(getError(error));
+        }
+    }
+
+    /**
+     * Get Entries
+     * @returns Job History Entries, oldest first.
+     */
+    public getEntries(): JobHistoryEntry[] {
+        return this.storageService.getLinesSync<JobHistoryEntry>(JobHistory.HISTORY_ITEM_NAME);
+    }
+}
@@ -0,0 +1,428 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { ensureDirSync, existsSync, mkdtempSync, outputFileSync, readJsonSync, removeSync, writeFileSync, writeJsonSync } from 'fs-extra';
+
+import { APIEvent, CompressarrAPI, InternalAPIEvent } from './api';
+import { JobConfig } from './bridgeService';
+import { JobManager, JobManagerOptions } from './jobManager';
+import { JobRegistry, JobState } from './jobRegistry';
+import { MediaLedger } from './mediaLedger';
+import { DEFAULT_PIPELINE_NAME } from './pipeline';
+import { StorageService } from './storageService';
+import { User } from './user';
+
+const storagePath = mkdtempSync(join(tmpdir(), 'compressarr-'));
+
+User.setStoragePath(storagePath);
+
+const libraryPath = join(storagePath, 'library');
+const persistedJobsPath = join(User.persistPath(), 'jobs.json');
+const pipelines = new Map([[DEFAULT_PIPELINE_NAME, 'pipeline']]);
+
+/**
+ * Create Job Configuration
+ * @param name Name of the media in the library.
+ * @returns Job Configuration
+ */
+const createJobConfig = (name: string): JobConfig => ({
+    name: name,
+    srcPath: join(libraryPath, `${name}.mkv`),
+    tempPath: join(User.jobPath(), name),
+    dryRun: false,
+    pipeline: DEFAULT_PIPELINE_NAME
+});
+
+describe('JobManager', () => {
+    let api: CompressarrAPI;
+    let jobRegistry: JobRegistry;
+    let jobManager: JobManager;
+    let mediaLedger: MediaLedger;
+    let registeredJobs: string[];
+
+    /**
+     * Create Job Manager
+     * @param options Job Manager Options
+     * @returns Job Manager
+     */
+    const createJobManager = (options?: JobManagerOptions): JobManager => jobManager = new JobManager(api, jobRegistry, mediaLedger, options);
+
+    beforeEach(() => {
+        const persistStorageService = new StorageService(User.persistPath());
+
+        persistStorageService.initSync();
+        outputFileSync(join(libraryPath, 'a.mkv'), 'a');
+        outputFileSync(join(libraryPath, 'b.mkv'), 'b');
+
+        jobRegistry = new JobRegistry();
+        api = new CompressarrAPI({
+            getJobs: () => jobRegistry.getJobs(),
+            getJob: identifier => jobRegistry.getJob(identifier),
+            getFailedJobs: () => jobManager.getFailedJobs(),
+            getRecycledMedia: () => []
+        });
+        mediaLedger = new MediaLedger(persistStorageService);
+        registeredJobs = [];
+
+        api.on(InternalAPIEvent.REGISTER_JOB, path => registeredJobs.push(path));
+    });
+
+    afterEach(() => {
+        removeSync(User.persistPath());
+        removeSync(libraryPath);
+    });
+
+    afterAll(() => {
+        removeSync(storagePath);
+    });
+
+    it('persists the queued and the active jobs', () => {
+        createJobManager();
+
+        api.registerMedia(libraryPath, 'a.mkv');
+        api.registerMedia(libraryPath, 'b.mkv');
+
+        expect(registeredJobs).toEqual([join(libraryPath, 'a.mkv')]);
+        expect(readJsonSync(persistedJobsPath)).toEqual({
+            jobs: [createJobConfig('b')],
+            activeJobs: [createJobConfig('a')],
+            failedJobs: []
+        });
+    });
+
+    it('starts the next job once a job is published', () => {
+        createJobManager();
+
+        api.registerMedia(libraryPath, 'a.mkv');
+        api.registerMedia(libraryPath, 'b.mkv');
+        api.publishJob(join(libraryPath, 'a.mkv'));
+
+        expect(registeredJobs).toEqual([join(libraryPath, 'a.mkv'), join(libraryPath, 'b.mkv')]);
+        expect(readJsonSync(persistedJobsPath)).toEqual({
+            jobs: [],
+            activeJobs: [createJobConfig('b')],
+            failedJobs: []
+        });
+    });
+
+    it('restores the persisted queue with the jobs which were active first', () => {
+        const active = createJobConfig('active');
+
+        ensureDirSync(active.tempPath);
+        outputFileSync(active.srcPath, 'active');
+        writeJsonSync(persistedJobsPath, {
+            jobs: [createJobConfig('queued')],
+            activeJobs: [active]
+        });
+
+        createJobManager({ instances: 2 }).restore();
+
+        expect(registeredJobs).toEqual([join(libraryPath, 'active.mkv'), join(libraryPath, 'queued.mkv')]);
+        expect(existsSync(active.tempPath)).toBe(false);
+    });
+
+    it('doesn\'t run active jobs again whose source was published under a new extension before the restart', () => {
+        writeJsonSync(persistedJobsPath, {
+            jobs: [],
+            activeJobs: [createJobConfig('renamed')]
+        });
+
+        createJobManager().restore();
+
+        expect(registeredJobs).toEqual([]);
+    });
+
+    it('starts with an empty queue if the persisted queue can\'t be read', () => {
+        writeFileSync(persistedJobsPath, '{ not json');
+
+        expect(() => createJobManager().restore()).not.toThrow();
+        expect(registeredJobs).toEqual([]);
+    });
+
+    it('skips media which was processed by the same pipeline unless it is reprocessed', () => {
+        createJobManager({ pipelines: pipelines });
+
+        api.registerMedia(libraryPath, 'a.mkv');
+        api.publishJob(join(libraryPath, 'a.mkv'));
+        api.registerMedia(libraryPath, 'a.mkv');
+
+        expect(registeredJobs).toEqual([join(libraryPath, 'a.mkv')]);
+
+        api.reprocessMedia(libraryPath, 'a.mkv');
+
+        expect(registeredJobs).toEqual([join(libraryPath, 'a.mkv'), join(libraryPath, 'a.mkv')]);
+    });
+
+    it('marks media published under a new extension as processed under its new path', () => {
+        createJobManager({ pipelines: pipelines });
+
+        api.registerMedia(libraryPath, 'a.mkv');
+        outputFileSync(join(libraryPath, 'a.mp4'), 'compressed a');
+        api.publishJob(join(libraryPath, 'a.mkv'), join(libraryPath, 'a.mp4'));
+
+        expect(mediaLedger.isProcessed(join(libraryPath, 'a.mp4'), 'pipeline')).toBe(true);
+    });
+
+    it('processes media again if the pipeline changed', () => {
+        mediaLedger.record(join(libraryPath, 'a.mkv'), 'old pipeline');
+        mediaLedger.record(join(libraryPath, 'b.mkv'), 'pipeline');
+
+        createJobManager({ pipelines: pipelines, instances: 2 });
+
+        api.registerMedia(libraryPath, 'a.mkv');
+        api.registerMedia(libraryPath, 'b.mkv');
+
+        expect(registeredJobs).toEqual([join(libraryPath, 'a.mkv')]);
+    });
+
+    it('doesn\'t mark media as processed after a dry run', () => {
+        createJobManager({ pipelines: pipelines, dryRun: true });
+
+        api.registerMedia(libraryPath, 'a.mkv');
+        api.publishJob(join(libraryPath, 'a.mkv'));
+
+        expect(mediaLedger.isProcessed(join(libraryPath, 'a.mkv'), 'pipeline')).toBe(false);
+    });
+
+    it('processes media again if its library runs another pipeline', () => {
+        mediaLedger.record(join(libraryPath, 'a.mkv'), 'pipeline');
+
+        createJobManager({
+            pipelines: new Map([[DEFAULT_PIPELINE_NAME, 'pipeline'], ['movies', 'movies pipeline']]),
+            libraries: [{ library: libraryPath, name: 'Library', pipeline: 'movies' }]
+        });
+
+        api.registerMedia(libraryPath, 'a.mkv');
+
+        expect(registeredJobs).toEqual([join(libraryPath, 'a.mkv')]);
+        expect(readJsonSync(persistedJobsPath).activeJobs).toEqual([{ ...createJobConfig('a'), library: 'Library', pipeline: 'movies' }]);
+
+        api.publishJob(join(libraryPath, 'a.mkv'));
+
+        expect(mediaLedger.isProcessed(join(libraryPath, 'a.mkv'), 'movies pipeline')).toBe(true);
+    });
+
+    it('looks the pipeline of media up by the library containing it', () => {
+        createJobManager({
+            pipelines: new Map([[DEFAULT_PIPELINE_NAME, 'pipeline'], ['movies', 'movies pipeline']]),
+            libraries: [{ library: join(libraryPath, '..', 'library'), name: 'Library', pipeline: 'movies' }]
+        });
+
+        expect(jobManager.getPipelineSignatureForPath(join(libraryPath, 'a.mkv'))).toBe('movies pipeline');
+        expect(jobManager.getPipelineSignatureForPath(join(libraryPath, '..a.mkv'))).toBe('movies pipeline');
+        expect(jobManager.getPipelineSignatureForPath(`${libraryPath}-old/a.mkv`)).toBe('pipeline');
+        expect(jobManager.getPipelineSignatureForPath(join(storagePath, 'a.mkv'))).toBe('pipeline');
+    });
+
+    it('processes media which was already processed when forced', () => {
+        mediaLedger.record(join(libraryPath, 'a.mkv'), 'pipeline');
+
+        createJobManager({ pipelines: pipelines, force: true });
+
+        api.registerMedia(libraryPath, 'a.mkv');
+
+        expect(registeredJobs).toEqual([join(libraryPath, 'a.mkv')]);
+    });
+
+    describe('retries', () => {
+        beforeEach(() => {
+            jest.useFakeTimers();
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it('retries a failed job with a doubling delay before it gives up', () => {
+            const path = join(libraryPath, 'a.mkv');
+
+            createJobManager({ retries: 2, retryDelay: 10 });
+
+            api.registerMedia(libraryPath, 'a.mkv');
+            api.failJob(path, 'boom', true);
+            jest.advanceTimersByTime(9999);
+
+            expect(registeredJobs).toEqual([path]);
+
+            jest.advanceTimersByTime(1);
+
+            expect(registeredJobs).toEqual([path, path]);
+
+            api.failJob(path, 'boom', true);
+            jest.advanceTimersByTime(19999);
+
+            expect(registeredJobs).toEqual([path, path]);
+
+            jest.advanceTimersByTime(1);
+
+            expect(registeredJobs).toEqual([path, path, path]);
+
+            api.failJob(path, 'boom', true);
+            jest.runAllTimers();
+
+            expect(registeredJobs).toEqual([path, path, path]);
+            expect(api.getFailedJobs()).toEqual([expect.objectContaining({ jobPath: path, reason: 'boom', attempts: 3 })]);
+        });
+
+        it('keeps the retrying jobs queued across restarts', () => {
+            createJobManager();
+
+            api.registerMedia(libraryPath, 'a.mkv');
+            api.failJob(join(libraryPath, 'a.mkv'), 'boom', true);
+
+            expect(readJsonSync(persistedJobsPath)).toEqual({
+                jobs: [{ ...createJobConfig('a'), attempts: 1 }],
+                activeJobs: [],
+                failedJobs: []
+            });
+        });
+    });
+
+    describe('removed media', () => {
+        it('cancels the queued and the active jobs of removed media', () => {
+            createJobManager();
+
+            api.registerMedia(libraryPath, 'a.mkv');
+            api.registerMedia(libraryPath, 'b.mkv');
+            api.unregisterMedia(libraryPath, 'a.mkv');
+            api.unregisterMedia(libraryPath, 'b.mkv');
+
+            expect(api.getJobs()).toEqual([
+                expect.objectContaining({ name: 'a', state: JobState.CANCELLED, reason: 'Media removed.' }),
+                expect.objectContaining({ name: 'b', state: JobState.CANCELLED, reason: 'Media removed.' })
+            ]);
+        });
+
+        it('leaves finished jobs of removed media alone', () => {
+            const path = join(libraryPath, 'a.mkv');
+            const unregisteredJobs: string[] = [];
+
+            createJobManager();
+
+            api.on(InternalAPIEvent.UNREGISTER_JOB, jobPath => unregisteredJobs.push(jobPath));
+            api.registerMedia(libraryPath, 'a.mkv');
+            api.publishJob(path);
+            api.unregisterMedia(libraryPath, 'a.mkv');
+
+            expect(api.getJob(path)).toEqual(expect.objectContaining({ state: JobState.SUCCEEDED, reason: undefined }));
+            expect(unregisteredJobs).toEqual([]);
+        });
+    });
+
+    describe('failed jobs', () => {
+        it('moves a job which can\'t be retried to the failed jobs and ignores its media', () => {
+            const path = join(libraryPath, 'a.mkv');
+
+            createJobManager();
+
+            api.registerMedia(libraryPath, 'a.mkv');
+            api.failJob(path, 'broken', false);
+            api.registerMedia(libraryPath, 'a.mkv');
+
+            expect(registeredJobs).toEqual([path]);
+            expect(api.getFailedJobs()).toEqual([expect.objectContaining({ jobPath: path, reason: 'broken', attempts: 1 })]);
+            expect(readJsonSync(persistedJobsPath).failedJobs).toHaveLength(1);
+        });
+
+        it('hands out copies of the failed jobs', () => {
+            const path = join(libraryPath, 'a.mkv');
+
+            createJobManager();
+
+            api.registerMedia(libraryPath, 'a.mkv');
+            api.failJob(path, 'broken', false);
+            api.getFailedJobs()[0].jobConfig.name = 'b';
+
+            expect(jobManager.getFailedJobs()).toEqual([expect.objectContaining({ jobConfig: expect.objectContaining({ name: 'a' }) })]);
+        });
+
+        it('queues a failed job again when it is retried', () => {
+            const path = join(libraryPath, 'a.mkv');
+
+            createJobManager();
+
+            api.registerMedia(libraryPath, 'a.mkv');
+            api.failJob(path, 'broken', false);
+            api.retryFailedJob(path);
+
+            expect(registeredJobs).toEqual([path, path]);
+            expect(api.getFailedJobs()).toEqual([]);
+            expect(readJsonSync(persistedJobsPath).activeJobs).toEqual([{ ...createJobConfig('a'), attempts: 0 }]);
+        });
+
+        it('forgets a discarded failed job', () => {
+            createJobManager();
+
+            api.registerMedia(libraryPath, 'a.mkv');
+            api.failJob(join(libraryPath, 'a.mkv'), 'broken', false);
+            api.discardFailedJob(join(libraryPath, 'a.mkv'));
+
+            expect(api.getFailedJobs()).toEqual([]);
+            expect(readJsonSync(persistedJobsPath).failedJobs).toEqual([]);
+        });
+
+        it('restores the persisted failed jobs', () => {
+            writeJsonSync(persistedJobsPath, {
+                jobs: [],
+                activeJobs: [],
+                failedJobs: [{ jobPath: join(libraryPath, 'a.mkv'), jobConfig: createJobConfig('a'), reason: 'broken', attempts: 1, failedAt: new Date().toISOString() }]
+            });
+
+            createJobManager().restore();
+            api.registerMedia(libraryPath, 'a.mkv');
+
+            expect(registeredJobs).toEqual([]);
+            expect(api.getFailedJobs()).toHaveLength(1);
+        });
+    });
+
+    describe('queue controls', () => {
+        it('doesn\'t start new jobs while the queue is paused', () => {
+            createJobManager();
+
+            api.pauseQueue();
+            api.registerMedia(libraryPath, 'a.mkv');
+
+            expect(registeredJobs).toEqual([]);
+
+            api.resumeQueue();
+
+            expect(registeredJobs).toEqual([join(libraryPath, 'a.mkv')]);
+        });
+
+        it('fires queueDrained once the active jobs have finished', () => {
+            const drained = jest.fn();
+
+            createJobManager();
+
+            api.on(APIEvent.QUEUE_DRAINED, drained);
+            api.registerMedia(libraryPath, 'a.mkv');
+            api.registerMedia(libraryPath, 'b.mkv');
+            api.drainQueue();
+
+            expect(drained).not.toHaveBeenCalled();
+
+            api.publishJob(join(libraryPath, 'a.mkv'));
+
+            expect(drained).toHaveBeenCalledTimes(1);
+            expect(registeredJobs).toEqual([join(libraryPath, 'a.mkv')]);
+        });
+
+        it('cancels a pending drain when the queue is resumed', () => {
+            const drained = jest.fn();
+            const cancelled = jest.fn();
+
+            createJobManager();
+
+            api.on(APIEvent.QUEUE_DRAINED, drained);
+            api.on(APIEvent.QUEUE_DRAIN_CANCELLED, cancelled);
+            api.registerMedia(libraryPath, 'a.mkv');
+            api.drainQueue();
+            api.resumeQueue();
+            api.publishJob(join(libraryPath, 'a.mkv'));
+
+            expect(cancelled).toHaveBeenCalledTimes(1);
+            expect(drained).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -1,11 +1,20 @@
-import { join, parse } from 'path';
+import { cpus, freemem, loadavg } from 'os';
+import { basename, isAbsolute, join, parse, relative, sep } from 'path';
 
-import { Logger } from '@epickris/node-logger';
+import { Logger, getError } from '@epickris/node-logger';
+import { existsSync, readdirSync, rmdirSync } from 'fs-extra';
+import { rimrafSync } from 'rimraf';
 
-import { CompressarrAPI, InternalAPIEvent } from './api';
-import { Job } from './job';
+import { APIEvent, CompressarrAPI, FailedJob, InternalAPIEvent } from './api';
+import { MediaLedger, PipelineSignature } from './mediaLedger';
+import { StorageService } from './storageService';
 import { User } from './user';
-import { JobConfig } from './bridgeService';
+import { ConcurrencyConfig, JobConfig, LibraryConfig, ScheduleConfig } from './bridgeService';
+import { JobRegistry, JobState } from './jobRegistry';
+import { DEFAULT_PIPELINE_NAME, getPipelineName } from './pipeline';
+import { MediaInfo } from './probe';
+import { PublishService } from './publishService';
+import { OutsideWindowAction, Schedule } from './schedule';
 
 /** Job */
 const log = Logger.internal;
@@ -20,6 +29,49 @@ export interface JobManagerOptions {
 
     /** Instances */
     instances?: number;
+
+    /** Concurrency */
+    concurrency?: ConcurrencyConfig;
+
+    /** Pipeline Signatures by Pipeline Name */
+    pipelines?: Map<string, PipelineSignature>;
+
+    /**
+     * Process media even when the media ledger says it has already been processed.
+     */
+    force?: boolean;
+
+    /** Retries */
+    retries?: number;
+
+    /**
+     * Seconds to wait before the first retry.
+     */
+    retryDelay?: number;
+
+    /** Library Configurations */
+    libraries?: LibraryConfig[];
+
+    /** Global Schedule */
+    schedule?: ScheduleConfig;
+
+    /**
+     * Run every job as a dry run.
+     */
+    dryRun?: boolean;
+}
+
+/** Persisted Jobs */
+interface PersistedJobs {
+
+    /** Jobs */
+    jobs: JobConfig[];
+
+    /** Active Jobs */
+    activeJobs: JobConfig[];
+
+    /** Failed Jobs */
+    failedJobs?: FailedJob[];
 }
 
 /**
@@ -27,74 +79,538 @@ export interface JobManagerOptions {
  */
 export class JobManager {
 
+    /** Persisted Jobs Item Name */
+    private static readonly PERSISTED_JOBS_ITEM_NAME = 'jobs.json';
+
+    /**
+     * Milliseconds between checks whether schedule windows opened or closed.
+     */
+    private static readonly SCHEDULE_INTERVAL = 60 * 1000;
+
+    /**
+     * Milliseconds to wait before trying again when the host is too busy to start a job.
+     */
+    private static readonly RESOURCE_INTERVAL = 30 * 1000;
+
     /** Compressarr API */
     private readonly api: CompressarrAPI;
 
+    /** Job Registry */
+    private readonly jobRegistry: JobRegistry;
+
+    /** Jobs which have run out of retries by Job Path */
+    private readonly failedJobs: Map<string, FailedJob> = new Map();
+
     /**
      * Unique path we will use for jobs.
      */
     private readonly jobPath: string;
 
-    /** Instances */
-    private readonly instances: number = 1;
+    /** Concurrency */
+    private concurrency: ConcurrencyConfig = {
+        instances: 1
+    };
 
-    /** Jobs */
-    private jobs: Map<string, JobConfig> = new Map();
+    /** Running Job Actions */
+    private readonly runningJobActions: Map<string, number> = new Map();
 
-    /** Active Jobs */
-    private activeJobs: Map<string, JobConfig> = new Map();
+    /** Job Actions Waiting for a Slot */
+    private readonly waitingJobActions: Map<string, (() => void)[]> = new Map();
+
+    /** Resource Timeout */
+    private resourceTimeout?: NodeJS.Timeout;
+
+    /** Paused? */
+    private paused = false;
+
+    /** Draining? */
+    private draining = false;
+
+    /** Media Ledger */
+    private readonly mediaLedger: MediaLedger;
+
+    /** Pipeline Signatures by Pipeline Name */
+    private readonly pipelines: Map<string, PipelineSignature> = new Map();
+
+    /** Force? */
+    private readonly force: boolean = false;
+
+    /** Dry Run? */
+    private readonly dryRun: boolean = false;
+
+    /** Retries */
+    private readonly retries: number = 3;
+
+    /** Retry Delay */
+    private readonly retryDelay: number = 60;
+
+    /** Libraries by Library Path */
+    private readonly libraries: Map<string, LibraryConfig> = new Map();
+
+    /** Global Schedule */
+    private readonly schedule?: Schedule;
+
+    /** Library Schedules */
+    private readonly librarySchedules: Map<string, Schedule> = new Map();
+
+    /** Retry Timeouts */
+    private readonly retryTimeouts: Map<string, NodeJS.Timeout> = new Map();
+
+    /** Persist Storage Service */
+    private readonly persistStorageService: StorageService;
 
     /**
      * @param api Compressarr API
+     * @param jobRegistry Job Registry
+     * @param mediaLedger Media Ledger
      * @param options Job Manager Options
      */
-    constructor(api: CompressarrAPI, options?: JobManagerOptions) {
+    constructor(api: CompressarrAPI, jobRegistry: JobRegistry, mediaLedger: MediaLedger, options?: JobManagerOptions) {
         this.api = api;
+        this.jobRegistry = jobRegistry;
+        this.mediaLedger = mediaLedger;
         this.jobPath = User.jobPath();
+        this.persistStorageService = new StorageService(User.persistPath());
+        this.persistStorageService.initSync();
 
         if (options) {
             if (options.customJobPath) {
                 this.jobPath = options.customJobPath;
             }
 
+            if (options.concurrency) {
+                this.concurrency = { ...this.concurrency, ...options.concurrency };
+            }
+
             if (options.instances) {
-                this.instances = options.instances;
+                this.concurrency.instances = options.instances;
+            }
+
+            if (options.pipelines) {
+                this.pipelines = options.pipelines;
+            }
+
+            if (options.force) {
+                this.force = options.force;
+            }
+
+            if (options.dryRun) {
+                this.dryRun = options.dryRun;
+            }
+
+            if (options.retries !== undefined) {
+                this.retries = options.retries;
+            }
+
+            if (options.retryDelay !== undefined) {
+                this.retryDelay = options.retryDelay;
+            }
+
+            if (options.schedule) {
+                this.schedule = new Schedule(options.schedule);
+            }
+
+            for (const libraryConfig of options.libraries || []) {
+                this.libraries.set(libraryConfig.library, libraryConfig);
+
+                if (libraryConfig.schedule) {
+                    this.librarySchedules.set(libraryConfig.name, new Schedule(libraryConfig.schedule));
+                }
             }
         }
 
+        if (this.schedule || this.librarySchedules.size > 0) {
+            setInterval(this.checkSchedules.bind(this), JobManager.SCHEDULE_INTERVAL).unref();
+        }
+
         this.api.on(InternalAPIEvent.PUBLISH_JOB, this.handlePublishJob.bind(this));
+        this.api.on(InternalAPIEvent.FAIL_JOB, this.handleFailJob.bind(this));
+        this.api.on(InternalAPIEvent.SKIP_JOB, this.handleSkipJob.bind(this));
+        this.api.on(InternalAPIEvent.TIME_OUT_JOB, this.handleTimeOutJob.bind(this));
+        this.api.on(InternalAPIEvent.RETRY_FAILED_JOB, this.handleRetryFailedJob.bind(this));
+        this.api.on(InternalAPIEvent.DISCARD_FAILED_JOB, this.handleDiscardFailedJob.bind(this));
         this.api.on(InternalAPIEvent.REGISTER_MEDIA, this.handleRegisterMedia.bind(this));
         this.api.on(InternalAPIEvent.UPDATE_MEDIA, this.handleUpdateMedia.bind(this));
         this.api.on(InternalAPIEvent.UNREGISTER_MEDIA, this.handleUnregisterMedia.bind(this));
+        this.api.on(InternalAPIEvent.REPROCESS_MEDIA, this.handleReprocessMedia.bind(this));
+        this.api.on(InternalAPIEvent.SET_CONCURRENCY, this.handleSetConcurrency.bind(this));
+        this.api.on(InternalAPIEvent.PAUSE_QUEUE, this.handlePauseQueue.bind(this));
+        this.api.on(InternalAPIEvent.RESUME_QUEUE, this.handleResumeQueue.bind(this));
+        this.api.on(InternalAPIEvent.DRAIN_QUEUE, this.handleDrainQueue.bind(this));
+    }
+
+    /**
+     * Get Failed Jobs
+     * @returns Copies of the jobs which have run out of retries.
+     */
+    public getFailedJobs(): FailedJob[] {
+        return Array.from(this.failedJobs.values()).map(failedJob => ({ ...failedJob, jobConfig: { ...failedJob.jobConfig } }));
+    }
+
+    /**
+     * Restore
+     * Reloads the persisted job queue, jobs that were active at shutdown are re-queued ahead of the rest.
+     */
+    public restore(): void {
+        let persistedJobs: PersistedJobs | null;
+
+        try {
+            persistedJobs = this.persistStorageService.getItemSync<PersistedJobs>(JobManager.PERSISTED_JOBS_ITEM_NAME);
+        } catch (error) {
+            log.error('There was a problem reading the persisted job queue, starting with an empty queue.');
+            log.error(getError(error));
+
+            return;
+        }
+
+        if (!persistedJobs) {
+            this.cleanOrphanedJobs();
+
+            return;
+        }
+
+        for (const failedJob of persistedJobs.failedJobs || []) {
+            this.failedJobs.set(failedJob.jobPath, failedJob);
+        }
+
+        for (const jobConfig of persistedJobs.activeJobs || []) {
+            rimrafSync(jobConfig.tempPath);
+
+            // A publish rolled forward during startup recovery leaves its job behind as active,
+            // with the source either processed or published under a new extension.
+            if (!existsSync(jobConfig.srcPath) || (!jobConfig.dryRun && this.mediaLedger.isProcessed(jobConfig.srcPath, this.getPipelineSignature(jobConfig.pipeline)))) {
+                log.info(`${jobConfig.name} was published before the restart, it won't run again.`);
+
+                continue;
+            }
+
+            this.jobRegistry.queue(jobConfig);
+        }
+
+        for (const jobConfig of persistedJobs.jobs || []) {
+            this.jobRegistry.queue(jobConfig);
+        }
+
+        log.info(`Restored ${this.jobRegistry.getJobConfigs(JobState.QUEUED).length} queued jobs.`);
+
+        this.cleanOrphanedJobs();
+
+        this.next();
+    }
+
+    /**
+     * Clean Orphaned Jobs
+     * Removes job directories which no job owns anymore, for example after a crash. Dry run outputs are kept for review.
+     * Only files laid out like those of a job are removed, anything else in the job path is left alone.
+     */
+    private cleanOrphanedJobs(): void {
+        const tempPaths = new Set(this.jobRegistry.getJobConfigs(JobState.QUEUED).map(jobConfig => jobConfig.tempPath));
+        const dryRunPaths: string[] = [];
+        const unknownPaths: string[] = [];
+        let removed = 0;
+
+        // Returns whether the directory was removed.
+        const clean = (path: string): boolean => {
+            const entries = readdirSync(path, { withFileTypes: true });
+            const files = entries.filter(entry => !entry.isDirectory()).map(entry => entry.name);
+            const remainingDirectories = entries.filter(entry => entry.isDirectory() && !clean(join(path, entry.name)));
+
+            if (path === this.jobPath) {
+                if (files.length > 0) unknownPaths.push(path);
+
+                return false;
+            }
+
+            if (files.length > 0) {
+                if (tempPaths.has(path)) return false;
+
+                if (!files.every(file => JobManager.isJobFile(path, file))) {
+                    unknownPaths.push(path);
+
+                    return false;
+                }
+
+                if (files.includes(PublishService.DRY_RUN_REPORT_NAME)) {
+                    dryRunPaths.push(path);
+
+                    return false;
+                }
+
+                for (const file of files) {
+                    rimrafSync(join(path, file));
+                }
+
+                removed++;
+            }
+
+            if (remainingDirectories.length > 0) return false;
+
+            rmdirSync(path);
+
+            return true;
+        };
+
+        try {
+            if (existsSync(this.jobPath)) clean(this.jobPath);
+        } catch (error) {
+            log.error(`There was a problem cleaning up orphaned jobs in ${this.jobPath}.`);
+            log.error(getError(error));
+        }
+
+        if (removed > 0) {
+            log.info(`Removed ${removed} orphaned job directories.`);
+        }
+
+        for (const path of dryRunPaths) {
+            log.info(`Kept the dry run output in ${path}, remove it once reviewed.`);
+        }
+
+        for (const path of unknownPaths) {
+            log.warn(`${path} holds files which don't belong to a job, they were left alone.`);
+        }
+    }
+
+    /**
+     * Is Job File
+     * Jobs write `<name>-<n>` files into a directory named after the media, along with their dry run report.
+     * @param path Path of the directory.
+     * @param file Name of the file.
+     * @returns Whether the file could have been written by a job.
+     */
+    private static isJobFile(path: string, file: string): boolean {
+        if (file === PublishService.DRY_RUN_REPORT_NAME) return true;
+
+        const name = basename(path);
+
+        return file.startsWith(`${name}-`) && /^\d+(\.|$)/.test(file.slice(name.length + 1));
+    }
+
+    /**
+     * Acquire Job Action
+     * Resolves once the job action is below its concurrency limit, the slot must be released with {@link releaseJobAction}.
+     * @param name Job Action Name
+     */
+    public async acquireJobAction(name: string): Promise<void> {
+        while (!this.hasJobActionSlot(name)) {
+            await new Promise<void>(resolve => {
+                const waiting = this.waitingJobActions.get(name) || [];
+
+                waiting.push(resolve);
+
+                this.waitingJobActions.set(name, waiting);
+            });
+        }
+
+        this.runningJobActions.set(name, (this.runningJobActions.get(name) || 0) + 1);
+    }
+
+    /**
+     * Release Job Action
+     * @param name Job Action Name
+     */
+    public releaseJobAction(name: string): void {
+        this.runningJobActions.set(name, Math.max(0, (this.runningJobActions.get(name) || 0) - 1));
+        this.wakeJobActions(name);
+    }
+
+    /**
+     * Handle Set Concurrency
+     * @param concurrency Concurrency
+     */
+    handleSetConcurrency(concurrency: ConcurrencyConfig): void {
+        this.concurrency = {
+            ...this.concurrency,
+            ...concurrency,
+            jobActions: { ...this.concurrency.jobActions, ...concurrency.jobActions }
+        };
+
+        log.info(`Concurrency changed to ${JSON.stringify(this.concurrency)}.`);
+
+        for (const name of this.waitingJobActions.keys()) {
+            this.wakeJobActions(name);
+        }
+
+        this.next();
+    }
+
+    /** Handle Pause Queue */
+    handlePauseQueue(): void {
+        this.paused = true;
+
+        log.info('Queue paused, active jobs will keep running.');
+    }
+
+    /** Handle Resume Queue */
+    handleResumeQueue(): void {
+        const draining = this.draining;
+
+        this.paused = false;
+        this.draining = false;
+
+        log.info(draining ? 'Queue resumed, the drain was cancelled.' : 'Queue resumed.');
+
+        if (draining) this.api.emit(APIEvent.QUEUE_DRAIN_CANCELLED);
+
+        this.next();
+    }
+
+    /** Handle Drain Queue */
+    handleDrainQueue(): void {
+        this.paused = true;
+        this.draining = true;
+
+        log.info(`Draining queue, waiting for ${this.jobRegistry.getActiveJobConfigs().length} active jobs to finish.`);
+
+        this.next();
     }
 
     /**
      * Handle Publish Job
      * @param path Path
+     * @param publishedPath Published Path
+     */
+    handlePublishJob(path: string, publishedPath: string = path): void {
+        const jobConfig = this.jobRegistry.getJobConfig(path);
+
+        if (jobConfig && !jobConfig.dryRun) {
+            this.mediaLedger.record(publishedPath, this.getPipelineSignature(jobConfig.pipeline));
+        }
+
+        this.jobRegistry.transition(path, JobState.SUCCEEDED);
+        this.persist();
+        this.next();
+    }
+
+    /**
+     * Handle Fail Job
+     * @param path Path
+     * @param reason Reason
+     * @param retryable Retryable?
+     */
+    handleFailJob(path: string, reason: string, retryable: boolean): void {
+        const jobConfig = this.jobRegistry.getJobConfig(path);
+
+        if (jobConfig && this.jobRegistry.isActive(path)) {
+            const attempts = (jobConfig.attempts || 0) + 1;
+
+            if (retryable && attempts <= this.retries) {
+                const delay = this.retryDelay * 2 ** (attempts - 1);
+
+                log.warn(`Job ${jobConfig.name} failed: ${reason}. Retrying in ${delay} seconds (attempt ${attempts} of ${this.retries}).`);
+
+                this.retry({ ...jobConfig, attempts: attempts }, reason, delay);
+            } else {
+                log.error(`Job ${jobConfig.name} failed after ${attempts} attempts: ${reason}`);
+
+                this.jobRegistry.transition(path, JobState.FAILED, { reason: reason });
+                this.failedJobs.set(path, {
+                    jobPath: path,
+                    jobConfig: { ...jobConfig, attempts: attempts },
+                    reason: reason,
+                    attempts: attempts,
+                    failedAt: new Date().toISOString()
+                });
+            }
+        }
+
+        this.persist();
+        this.next();
+    }
+
+    /**
+     * Handle Skip Job
+     * The untouched source is recorded in the media ledger, so it isn't tried again on every start.
+     * @param path Path
+     * @param reason Reason
      */
-    handlePublishJob(path: string): void {
-        this.jobs.delete(path);
-        this.activeJobs.delete(path);
+    handleSkipJob(path: string, reason: string): void {
+        const jobConfig = this.jobRegistry.getJobConfig(path);
+
+        log.info(`Skipped ${jobConfig ? jobConfig.name : path}: ${reason}.`);
+
+        this.mediaLedger.record(path, jobConfig ? this.getPipelineSignature(jobConfig.pipeline) : this.getPipelineSignatureForPath(path));
+        this.jobRegistry.transition(path, JobState.SKIPPED, { reason: reason });
+        this.persist();
+        this.next();
+    }
+
+    /**
+     * Handle Time Out Job
+     * A job which ran out of time would most likely run out of time again, so it isn't retried.
+     * @param path Path
+     * @param reason Reason
+     */
+    handleTimeOutJob(path: string, reason: string): void {
+        const jobConfig = this.jobRegistry.getJobConfig(path);
+
+        if (jobConfig && this.jobRegistry.isActive(path)) {
+            const attempts = (jobConfig.attempts || 0) + 1;
+
+            log.error(`Job ${jobConfig.name} timed out: ${reason}.`);
+
+            this.jobRegistry.transition(path, JobState.TIMED_OUT, { reason: reason });
+            this.failedJobs.set(path, {
+                jobPath: path,
+                jobConfig: { ...jobConfig, attempts: attempts },
+                reason: reason,
+                attempts: attempts,
+                failedAt: new Date().toISOString()
+            });
+        }
+
+        this.persist();
+        this.next();
+    }
+
+    /**
+     * Handle Retry Failed Job
+     * @param path Path
+     */
+    handleRetryFailedJob(path: string): void {
+        const failedJob = this.failedJobs.get(path);
+
+        if (!failedJob) return;
+
+        this.failedJobs.delete(path);
+        this.jobRegistry.queue({ ...failedJob.jobConfig, attempts: 0 });
+        this.persist();
         this.next();
     }
 
+    /**
+     * Handle Discard Failed Job
+     * @param path Path
+     */
+    handleDiscardFailedJob(path: string): void {
+        this.failedJobs.delete(path);
+        this.persist();
+    }
+
     /**
      * Handle Register Media
      * @param libraryPath Library Path
      * @param mediaPath Media Path
      */
-    handleRegisterMedia(libraryPath: string, mediaPath: string): void {
+    handleRegisterMedia(libraryPath: string, mediaPath: string, info?: MediaInfo): void {
         const parsedPath = parse(mediaPath);
         const srcPath = join(libraryPath, mediaPath);
+
+        if (this.isProcessed(srcPath, libraryPath) || this.failedJobs.has(srcPath) || this.retryTimeouts.has(srcPath) || this.jobRegistry.isActive(srcPath)) return;
+
         const tempPath = join(this.jobPath, mediaPath);
         const parsedTempPath = parse(tempPath);
         const jobConfig = {
             name: parsedPath.name,
             srcPath: srcPath,
-            tempPath: join(parsedTempPath.dir, parsedTempPath.name)
+            tempPath: join(parsedTempPath.dir, parsedTempPath.name),
+            library: this.getLibraryName(libraryPath),
+            dryRun: this.isDryRun(libraryPath),
+            pipeline: getPipelineName(this.libraries.get(libraryPath)),
+            info: info
         };
 
-        this.jobs.set(srcPath, jobConfig);
+        this.jobRegistry.queue(jobConfig);
+        this.persist();
 
         this.next();
     }
@@ -104,20 +620,29 @@ export class JobManager {
      * @param libraryPath Library Path
      * @param mediaPath Media Path
      */
-    handleUpdateMedia(libraryPath: string, mediaPath: string): void {
+    handleUpdateMedia(libraryPath: string, mediaPath: string, info?: MediaInfo): void {
         const parsedPath = parse(mediaPath);
         const srcPath = join(libraryPath, mediaPath);
+
+        if (this.isProcessed(srcPath, libraryPath)) return;
+
         const tempPath = join(this.jobPath, mediaPath);
         const parsedTempPath = parse(tempPath);
         const jobConfig = {
             name: parsedPath.name,
             srcPath: srcPath,
-            tempPath: join(parsedTempPath.dir, parsedTempPath.name)
+            tempPath: join(parsedTempPath.dir, parsedTempPath.name),
+            library: this.getLibraryName(libraryPath),
+            dryRun: this.isDryRun(libraryPath),
+            pipeline: getPipelineName(this.libraries.get(libraryPath)),
+            info: info
         };
 
-        this.jobs.set(srcPath, jobConfig);
-        this.activeJobs.delete(srcPath);
+        this.cancelRetry(srcPath);
+        this.failedJobs.delete(srcPath);
+        this.jobRegistry.queue(jobConfig);
         this.api.emit(InternalAPIEvent.UNREGISTER_JOB, srcPath);
+        this.persist();
         this.next();
     }
 
@@ -128,32 +653,285 @@ export class JobManager {
      */
     handleUnregisterMedia(libraryPath: string, mediaPath: string): void {
         const srcPath = join(libraryPath, mediaPath);
+        const status = this.jobRegistry.getJob(srcPath);
+
+        this.cancelRetry(srcPath);
+        this.failedJobs.delete(srcPath);
+
+        // Finished jobs keep their outcome, only work which is still to be done is cancelled.
+        if (status && (status.state === JobState.QUEUED || status.state === JobState.RETRYING || this.jobRegistry.isActive(srcPath))) {
+            this.jobRegistry.transition(srcPath, JobState.CANCELLED, { reason: 'Media removed.' });
+            this.api.emit(InternalAPIEvent.UNREGISTER_JOB, srcPath);
+        }
+
+        this.persist();
+        this.next();
+    }
+
+    /**
+     * Handle Reprocess Media
+     * @param libraryPath Library Path
+     * @param mediaPath Media Path
+     */
+    handleReprocessMedia(libraryPath: string, mediaPath: string): void {
+        this.mediaLedger.forget(join(libraryPath, mediaPath));
+        this.handleRegisterMedia(libraryPath, mediaPath);
+    }
+
+    /**
+     * Is Processed?
+     * @param srcPath Source Path
+     * @param libraryPath Library Path
+     * @returns Processed?
+     */
+    private isProcessed(srcPath: string, libraryPath: string): boolean {
+        const pipeline = this.getPipelineSignature(getPipelineName(this.libraries.get(libraryPath)));
+
+        if (this.force || !this.mediaLedger.isProcessed(srcPath, pipeline)) return false;
+
+        log.debug(`Skipping ${srcPath} as it has already been processed.`);
+
+        return true;
+    }
+
+    /**
+     * Has Job Action Slot?
+     * @param name Job Action Name
+     * @returns Has Job Action Slot?
+     */
+    private hasJobActionSlot(name: string): boolean {
+        const limit = this.concurrency.jobActions ? this.concurrency.jobActions[name] : undefined;
+
+        return limit === undefined || limit <= 0 || (this.runningJobActions.get(name) || 0) < limit;
+    }
+
+    /**
+     * Wake Job Actions
+     * @param name Job Action Name
+     */
+    private wakeJobActions(name: string): void {
+        const waiting = this.waitingJobActions.get(name) || [];
+
+        this.waitingJobActions.delete(name);
+
+        waiting.forEach(resolve => resolve());
+    }
+
+    /**
+     * Has Resources?
+     * @returns Does the host have the resources to start another job?
+     */
+    private hasResources(): boolean {
+        const { maxLoadAverage, minFreeMemory } = this.concurrency;
+        const loadAverage = loadavg()[0] / cpus().length;
+        const freeMemory = freemem() / 1024 / 1024;
+
+        if (maxLoadAverage !== undefined && loadAverage > maxLoadAverage) {
+            log.debug(`Not starting a job as the load average per CPU of ${loadAverage.toFixed(2)} is above ${maxLoadAverage}.`);
+
+            return false;
+        }
+
+        if (minFreeMemory !== undefined && freeMemory < minFreeMemory) {
+            log.debug(`Not starting a job as ${Math.round(freeMemory)} MB of free memory is below ${minFreeMemory} MB.`);
+
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Get Pipeline Signature for Path
+     * @param path Path of media in a library.
+     * @returns Signature of the pipeline the library of the media runs.
+     */
+    public getPipelineSignatureForPath(path: string): PipelineSignature {
+        const libraryConfig = Array.from(this.libraries.values()).find(libraryConfig => {
+            const relativePath = relative(libraryConfig.library, path);
+
+            return relativePath !== '' && relativePath !== '..' && !relativePath.startsWith(`..${sep}`) && !isAbsolute(relativePath);
+        });
+
+        return this.getPipelineSignature(getPipelineName(libraryConfig));
+    }
+
+    /**
+     * Get Pipeline Signature
+     * @param pipeline Pipeline Name
+     * @returns Pipeline Signature
+     */
+    private getPipelineSignature(pipeline: string = DEFAULT_PIPELINE_NAME): PipelineSignature {
+        return this.pipelines.get(pipeline) || '';
+    }
+
+    /**
+     * Get Library Name
+     * @param libraryPath Library Path
+     * @returns Library Name?
+     */
+    private getLibraryName(libraryPath: string): string | undefined {
+        const libraryConfig = this.libraries.get(libraryPath);
+
+        return libraryConfig ? libraryConfig.name : undefined;
+    }
+
+    /**
+     * Is Dry Run?
+     * @param libraryPath Library Path
+     * @returns Dry Run?
+     */
+    private isDryRun(libraryPath: string): boolean {
+        const libraryConfig = this.libraries.get(libraryPath);
+
+        return this.dryRun || (!!libraryConfig && !!libraryConfig.dryRun);
+    }
+
+    /**
+     * Get Schedule
+     * @param jobConfig Job Configuration
+     * @returns Schedule?
+     */
+    private getSchedule(jobConfig: JobConfig): Schedule | undefined {
+        const librarySchedule = jobConfig.library ? this.librarySchedules.get(jobConfig.library) : undefined;
+
+        return librarySchedule || this.schedule;
+    }
+
+    /**
+     * Is Scheduled?
+     * @param jobConfig Job Configuration
+     * @returns May the job run now?
+     */
+    private isScheduled(jobConfig: JobConfig): boolean {
+        const schedule = this.getSchedule(jobConfig);
+
+        return !schedule || schedule.isOpen();
+    }
+
+    /**
+     * Check Schedules
+     * Applies the outside window action to active jobs whose window closed and resumes paused jobs whose window opened.
+     */
+    private checkSchedules(): void {
+        for (const jobConfig of this.jobRegistry.getActiveJobConfigs()) {
+            const schedule = this.getSchedule(jobConfig);
+            const status = this.jobRegistry.getJob(jobConfig.srcPath);
+
+            if (!schedule || !status) continue;
+
+            if (schedule.isOpen()) {
+                if (status.state === JobState.PAUSED) {
+                    log.info(`Resuming ${jobConfig.name} as its schedule window opened.`);
+
+                    this.api.emit(InternalAPIEvent.RESUME_JOB, jobConfig.srcPath);
+                }
+
+                continue;
+            }
+
+            if (schedule.outsideWindow === OutsideWindowAction.PAUSE && status.state === JobState.RUNNING) {
+                log.info(`Pausing ${jobConfig.name} as its schedule window closed.`);
+
+                this.api.emit(InternalAPIEvent.PAUSE_JOB, jobConfig.srcPath);
+            } else if (schedule.outsideWindow === OutsideWindowAction.KILL) {
+                log.info(`Killing ${jobConfig.name} as its schedule window closed, it will run again when the window opens.`);
+
+                this.jobRegistry.queue(jobConfig);
+                this.api.emit(InternalAPIEvent.UNREGISTER_JOB, jobConfig.srcPath);
+                this.persist();
+            }
+        }
 
-        this.jobs.delete(srcPath);
-        this.activeJobs.delete(srcPath);
-        this.api.emit(InternalAPIEvent.UNREGISTER_JOB, srcPath);
         this.next();
     }
 
+    /**
+     * Retry
+     * @param jobConfig Job Configuration
+     * @param reason Reason
+     * @param delay Delay in seconds
+     */
+    private retry(jobConfig: JobConfig, reason: string, delay: number): void {
+        this.jobRegistry.queue(jobConfig);
+        this.jobRegistry.transition(jobConfig.srcPath, JobState.RETRYING, { reason: reason });
+
+        this.retryTimeouts.set(jobConfig.srcPath, setTimeout(() => {
+            this.retryTimeouts.delete(jobConfig.srcPath);
+            this.jobRegistry.queue(jobConfig);
+            this.persist();
+            this.next();
+        }, delay * 1000));
+    }
+
+    /**
+     * Cancel Retry
+     * @param path Path
+     */
+    private cancelRetry(path: string): void {
+        const timeout = this.retryTimeouts.get(path);
+
+        if (!timeout) return;
+
+        clearTimeout(timeout);
+
+        this.retryTimeouts.delete(path);
+    }
+
     /** Next */
     private next() {
-        if (this.jobs.size === 0 || this.activeJobs.size >= this.instances) return;
+        if (this.paused) {
+            if (this.draining && this.jobRegistry.getActiveJobConfigs().length === 0) {
+                this.draining = false;
+
+                log.info('Queue drained.');
 
-        const iteratorResult = this.jobs.entries().next();
+                this.api.emit(APIEvent.QUEUE_DRAINED);
+            }
 
-        if (iteratorResult.done) {
             return;
         }
 
-        const [key, job] = iteratorResult.value;
+        if (this.jobRegistry.getActiveJobConfigs().length >= (this.concurrency.instances || 1)) return;
+
+        const job = this.jobRegistry.getJobConfigs(JobState.QUEUED).find(jobConfig => this.isScheduled(jobConfig));
+
+        if (job && !this.hasResources()) {
+            if (!this.resourceTimeout) {
+                this.resourceTimeout = setTimeout(() => {
+                    this.resourceTimeout = undefined;
+                    this.next();
+                }, JobManager.RESOURCE_INTERVAL);
+            }
+
+            return;
+        }
 
         if (job) {
-            this.jobs.delete(key);
-            this.activeJobs.set(key, job);
+            this.jobRegistry.start(job.srcPath);
+            this.persist();
             
-            this.api.registerJob(key, job);
+            this.api.registerJob(job.srcPath, job);
 
             this.next();
         }
     }
-}
\ No newline at end of file
+
+    /** Persist */
+    private persist(): void {
+        // Media info can be large and goes stale, a restored job probes its media again.
+        const withoutInfo = (jobConfig: JobConfig): JobConfig => ({ ...jobConfig, info: undefined });
+        const persistedJobs: PersistedJobs = {
+            jobs: this.jobRegistry.getJobConfigs(JobState.QUEUED, JobState.RETRYING).map(withoutInfo),
+            activeJobs: this.jobRegistry.getActiveJobConfigs().map(withoutInfo),
+            failedJobs: Array.from(this.failedJobs.values()).map(failedJob => ({ ...failedJob, jobConfig: withoutInfo(failedJob.jobConfig) }))
+        };
+
+        try {
+            this.persistStorageService.setItemSync(JobManager.PERSISTED_JOBS_ITEM_NAME, persistedJobs);
+        } catch (error) {
+            log.error('There was a problem persisting the job queue.');
+            log.error(getError(error));
+        }
+    }
+}
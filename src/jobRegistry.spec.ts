@@ -0,0 +1,204 @@
+import { JobConfig } from './bridgeService';
+import { JobRegistry, JobState } from './jobRegistry';
+
+/**
+ * Create Job Configuration
+ * @param name Name of the media.
+ * @returns Job Configuration
+ */
+const createJobConfig = (name: string): JobConfig => ({
+    name: name,
+    srcPath: `/library/${name}.mkv`,
+    tempPath: `/jobs/${name}`
+});
+
+describe('JobRegistry', () => {
+    let jobRegistry: JobRegistry;
+
+    beforeEach(() => {
+        jobRegistry = new JobRegistry();
+    });
+
+    describe('queue', () => {
+        it('queues jobs in order', () => {
+            jobRegistry.queue(createJobConfig('a'));
+            jobRegistry.queue(createJobConfig('b'));
+
+            expect(jobRegistry.getJobConfigs(JobState.QUEUED)).toEqual([createJobConfig('a'), createJobConfig('b')]);
+            expect(jobRegistry.getJob('/library/a.mkv')).toEqual(expect.objectContaining({ name: 'a', state: JobState.QUEUED, attempts: 0 }));
+        });
+
+        it('keeps the place of a job which is already queued', () => {
+            jobRegistry.queue(createJobConfig('a'));
+            jobRegistry.queue(createJobConfig('b'));
+            jobRegistry.queue({ ...createJobConfig('a'), attempts: 2 });
+
+            expect(jobRegistry.getJobConfigs(JobState.QUEUED).map(config => config.name)).toEqual(['a', 'b']);
+            expect(jobRegistry.getJob('/library/a.mkv')).toEqual(expect.objectContaining({ attempts: 2 }));
+        });
+
+        it('moves any other job to the back of the queue', () => {
+            jobRegistry.queue(createJobConfig('a'));
+            jobRegistry.queue(createJobConfig('b'));
+            jobRegistry.start('/library/a.mkv');
+            jobRegistry.transition('/library/a.mkv', JobState.FAILED);
+            jobRegistry.queue(createJobConfig('a'));
+
+            expect(jobRegistry.getJobConfigs(JobState.QUEUED).map(config => config.name)).toEqual(['b', 'a']);
+        });
+    });
+
+    describe('start', () => {
+        it('starts a new run of the job', () => {
+            jobRegistry.queue(createJobConfig('a'));
+
+            expect(jobRegistry.start('/library/a.mkv')).toBe(1);
+            expect(jobRegistry.isActive('/library/a.mkv')).toBe(true);
+            expect(jobRegistry.getActiveJobConfigs()).toEqual([createJobConfig('a')]);
+            expect(jobRegistry.getJob('/library/a.mkv')).toEqual(expect.objectContaining({ state: JobState.PROBING, startedAt: expect.any(String) }));
+        });
+
+        it('keeps counting the runs when a job is queued again', () => {
+            jobRegistry.queue(createJobConfig('a'));
+            jobRegistry.start('/library/a.mkv');
+            jobRegistry.transition('/library/a.mkv', JobState.FAILED, { reason: 'boom' });
+            jobRegistry.queue(createJobConfig('a'));
+
+            expect(jobRegistry.start('/library/a.mkv')).toBe(2);
+            expect(jobRegistry.getJob('/library/a.mkv')).toEqual(expect.objectContaining({ reason: undefined }));
+        });
+
+        it('doesn\'t start unknown jobs', () => {
+            expect(jobRegistry.start('/library/unknown.mkv')).toBe(0);
+            expect(jobRegistry.getRun('/library/unknown.mkv')).toBe(0);
+        });
+    });
+
+    describe('transition', () => {
+        it('records the running job action', () => {
+            jobRegistry.queue(createJobConfig('a'));
+            jobRegistry.start('/library/a.mkv');
+            jobRegistry.transition('/library/a.mkv', JobState.RUNNING, { actionIndex: 1, actionName: 'Compressor' });
+
+            expect(jobRegistry.getJob('/library/a.mkv')).toEqual(expect.objectContaining({ state: JobState.RUNNING, actionIndex: 1, actionName: 'Compressor' }));
+
+            jobRegistry.transition('/library/a.mkv', JobState.PUBLISHING);
+
+            expect(jobRegistry.getJob('/library/a.mkv')).toEqual(expect.objectContaining({ state: JobState.PUBLISHING, actionIndex: undefined, actionName: undefined }));
+        });
+
+        it('marks finished jobs as finished and no longer active', () => {
+            jobRegistry.queue(createJobConfig('a'));
+            jobRegistry.start('/library/a.mkv');
+            jobRegistry.transition('/library/a.mkv', JobState.CANCELLED, { reason: 'Unregistered' });
+
+            expect(jobRegistry.isActive('/library/a.mkv')).toBe(false);
+            expect(jobRegistry.getJob('/library/a.mkv')).toEqual(expect.objectContaining({ state: JobState.CANCELLED, reason: 'Unregistered', finishedAt: expect.any(String) }));
+        });
+
+        it('never leaves a finished state', () => {
+            jobRegistry.queue(createJobConfig('a'));
+            jobRegistry.start('/library/a.mkv');
+            jobRegistry.transition('/library/a.mkv', JobState.SUCCEEDED);
+            jobRegistry.transition('/library/a.mkv', JobState.CANCELLED, { reason: 'Media removed.' });
+            jobRegistry.transition('/library/a.mkv', JobState.RUNNING);
+
+            expect(jobRegistry.getJob('/library/a.mkv')).toEqual(expect.objectContaining({ state: JobState.SUCCEEDED, reason: undefined }));
+        });
+
+        it('leaves a finished state once the job is queued or started again', () => {
+            jobRegistry.queue(createJobConfig('a'));
+            jobRegistry.start('/library/a.mkv');
+            jobRegistry.transition('/library/a.mkv', JobState.FAILED);
+            jobRegistry.start('/library/a.mkv');
+
+            expect(jobRegistry.getJob('/library/a.mkv')).toEqual(expect.objectContaining({ state: JobState.PROBING, finishedAt: undefined }));
+
+            jobRegistry.transition('/library/a.mkv', JobState.FAILED);
+            jobRegistry.queue(createJobConfig('a'));
+            jobRegistry.transition('/library/a.mkv', JobState.RETRYING);
+
+            expect(jobRegistry.getJob('/library/a.mkv')).toEqual(expect.objectContaining({ state: JobState.RETRYING }));
+        });
+    });
+
+    describe('isCurrent', () => {
+        it('tells a superseded run apart from the current one', () => {
+            jobRegistry.queue(createJobConfig('a'));
+
+            const run = jobRegistry.start('/library/a.mkv');
+
+            expect(jobRegistry.isCurrent('/library/a.mkv', run)).toBe(true);
+
+            jobRegistry.queue(createJobConfig('a'));
+
+            const nextRun = jobRegistry.start('/library/a.mkv');
+
+            expect(jobRegistry.isCurrent('/library/a.mkv', run)).toBe(false);
+            expect(jobRegistry.isCurrent('/library/a.mkv', nextRun)).toBe(true);
+        });
+
+        it('isn\'t current once the job finished', () => {
+            jobRegistry.queue(createJobConfig('a'));
+
+            const run = jobRegistry.start('/library/a.mkv');
+
+            jobRegistry.transition('/library/a.mkv', JobState.SUCCEEDED);
+
+            expect(jobRegistry.isCurrent('/library/a.mkv', run)).toBe(false);
+        });
+    });
+
+    describe('prune', () => {
+        it('keeps the last 100 finished jobs', () => {
+            for (let index = 0; index < 101; index++) {
+                jobRegistry.queue(createJobConfig(`${index}`));
+            }
+
+            for (let index = 0; index < 101; index++) {
+                jobRegistry.start(`/library/${index}.mkv`);
+                jobRegistry.transition(`/library/${index}.mkv`, JobState.SUCCEEDED);
+            }
+
+            expect(jobRegistry.getJobs()).toHaveLength(100);
+            expect(jobRegistry.getJob('/library/0.mkv')).toBeUndefined();
+            expect(jobRegistry.getJob('/library/100.mkv')).toBeDefined();
+        });
+
+        it('never prunes unfinished jobs', () => {
+            jobRegistry.queue(createJobConfig('queued'));
+
+            for (let index = 0; index < 101; index++) {
+                jobRegistry.queue(createJobConfig(`${index}`));
+                jobRegistry.start(`/library/${index}.mkv`);
+                jobRegistry.transition(`/library/${index}.mkv`, JobState.FAILED);
+            }
+
+            expect(jobRegistry.getJob('/library/queued.mkv')).toBeDefined();
+        });
+    });
+
+    it('hands out copies of the job statuses', () => {
+        jobRegistry.queue(createJobConfig('a'));
+
+        jobRegistry.start('/library/a.mkv');
+        jobRegistry.setProgress('/library/a.mkv', { stage: 'transcoding', percent: 50 });
+
+        const [status] = jobRegistry.getJobs();
+
+        status.state = JobState.FAILED;
+        (status.progress || {}).percent = 100;
+
+        expect(jobRegistry.getJob('/library/a.mkv')).toEqual(expect.objectContaining({
+            state: JobState.PROBING,
+            progress: { stage: 'transcoding', percent: 50 }
+        }));
+    });
+
+    it('removes jobs', () => {
+        jobRegistry.queue(createJobConfig('a'));
+        jobRegistry.remove('/library/a.mkv');
+
+        expect(jobRegistry.getJobs()).toEqual([]);
+    });
+});
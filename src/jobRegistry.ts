@@ -0,0 +1,354 @@
+import { JobIdentifier } from './api';
+import { JobConfig } from './bridgeService';
+import { JobProgress } from './job';
+
+/** Job State */
+export const enum JobState {
+
+    /** Queued */
+    QUEUED = 'queued',
+
+    /** Waiting to be retried after a failure. */
+    RETRYING = 'retrying',
+
+    /** Probing */
+    PROBING = 'probing',
+
+    /** Running a job action. */
+    RUNNING = 'running',
+
+    /** Paused while running a job action. */
+    PAUSED = 'paused',
+
+    /** Publishing */
+    PUBLISHING = 'publishing',
+
+    /** Succeeded */
+    SUCCEEDED = 'succeeded',
+
+    /**
+     * Finished without replacing the source, for example because the output saved nothing.
+     */
+    SKIPPED = 'skipped',
+
+    /** Failed */
+    FAILED = 'failed',
+
+    /** Cancelled */
+    CANCELLED = 'cancelled',
+
+    /**
+     * Aborted as a job action or the whole job ran for longer than its timeout.
+     */
+    TIMED_OUT = 'timedOut'
+}
+
+/** Job Status */
+export interface JobStatus {
+
+    /** Identifier */
+    identifier: JobIdentifier;
+
+    /** Name */
+    name: string;
+
+    /** Source Path */
+    srcPath: string;
+
+    /** State */
+    state: JobState;
+
+    /** Index of the running job action. */
+    actionIndex?: number;
+
+    /** Name of the running job action. */
+    actionName?: string;
+
+    /** Progress of the running job action. */
+    progress?: JobProgress;
+
+    /** Attempts */
+    attempts: number;
+
+    /** Reason for the last failure, cancellation or timeout. */
+    reason?: string;
+
+    /** Queued At */
+    queuedAt: string;
+
+    /** Started At */
+    startedAt?: string;
+
+    /** Updated At */
+    updatedAt: string;
+
+    /** Finished At */
+    finishedAt?: string;
+}
+
+/** Job Status Details */
+export type JobStatusDetails = Partial<Pick<JobStatus, 'actionIndex' | 'actionName' | 'reason'>>;
+
+/** Job Registry Entry */
+interface JobRegistryEntry {
+
+    /** Job Configuration */
+    config: JobConfig;
+
+    /** Status */
+    status: JobStatus;
+
+    /**
+     * Incremented every time the job is started, so a superseded run can tell it is no longer current.
+     */
+    run: number;
+}
+
+/**
+ * The one place which knows about every job and the state it is in.
+ */
+export class JobRegistry {
+
+    /**
+     * Number of finished jobs kept around for inspection.
+     */
+    private static readonly FINISHED_JOBS_LIMIT = 100;
+
+    /** Active States */
+    private static readonly ACTIVE_STATES: JobState[] = [JobState.PROBING, JobState.RUNNING, JobState.PAUSED, JobState.PUBLISHING];
+
+    /** Finished States */
+    private static readonly FINISHED_STATES: JobState[] = [JobState.SUCCEEDED, JobState.SKIPPED, JobState.FAILED, JobState.CANCELLED, JobState.TIMED_OUT];
+
+    /** Entries */
+    private readonly entries: Map<JobIdentifier, JobRegistryEntry> = new Map();
+
+    /**
+     * Get Jobs
+     * @returns Job Statuses
+     */
+    public getJobs(): JobStatus[] {
+        return Array.from(this.entries.values()).map(entry => JobRegistry.copyStatus(entry.status));
+    }
+
+    /**
+     * Get Job
+     * @param identifier Job Identifier
+     * @returns Job Status?
+     */
+    public getJob(identifier: JobIdentifier): JobStatus | undefined {
+        const entry = this.entries.get(identifier);
+
+        return entry ? JobRegistry.copyStatus(entry.status) : undefined;
+    }
+
+    /**
+     * Get Job Configuration
+     * @param identifier Job Identifier
+     * @returns Job Configuration?
+     */
+    public getJobConfig(identifier: JobIdentifier): JobConfig | undefined {
+        const entry = this.entries.get(identifier);
+
+        return entry ? entry.config : undefined;
+    }
+
+    /**
+     * Get Job Configurations
+     * @param states States
+     * @returns Job Configurations in queue order.
+     */
+    public getJobConfigs(...states: JobState[]): JobConfig[] {
+        return Array.from(this.entries.values())
+            .filter(entry => states.includes(entry.status.state))
+            .map(entry => entry.config);
+    }
+
+    /**
+     * Get Active Job Configurations
+     * @returns Job Configurations
+     */
+    public getActiveJobConfigs(): JobConfig[] {
+        return this.getJobConfigs(...JobRegistry.ACTIVE_STATES);
+    }
+
+    /**
+     * Is Active?
+     * @param identifier Job Identifier
+     * @returns Active?
+     */
+    public isActive(identifier: JobIdentifier): boolean {
+        const entry = this.entries.get(identifier);
+
+        return !!entry && JobRegistry.ACTIVE_STATES.includes(entry.status.state);
+    }
+
+    /**
+     * Is Finished?
+     * @param identifier Job Identifier
+     * @returns Finished?
+     */
+    public isFinished(identifier: JobIdentifier): boolean {
+        const entry = this.entries.get(identifier);
+
+        return !!entry && JobRegistry.FINISHED_STATES.includes(entry.status.state);
+    }
+
+    /**
+     * Is Current?
+     * @param identifier Job Identifier
+     * @param run Run
+     * @returns Is the run still the active run of the job?
+     */
+    public isCurrent(identifier: JobIdentifier, run: number): boolean {
+        const entry = this.entries.get(identifier);
+
+        return this.isActive(identifier) && !!entry && entry.run === run;
+    }
+
+    /**
+     * Get Run
+     * @param identifier Job Identifier
+     * @returns Run
+     */
+    public getRun(identifier: JobIdentifier): number {
+        const entry = this.entries.get(identifier);
+
+        return entry ? entry.run : 0;
+    }
+
+    /**
+     * Queue
+     * A job which is already queued keeps its place, any other job goes to the back of the queue.
+     * @param config Job Configuration
+     */
+    public queue(config: JobConfig): void {
+        const entry = this.entries.get(config.srcPath);
+        const now = new Date().toISOString();
+
+        if (entry && entry.status.state === JobState.QUEUED) {
+            entry.config = config;
+            entry.status.attempts = config.attempts || 0;
+            entry.status.updatedAt = now;
+
+            return;
+        }
+
+        this.entries.delete(config.srcPath);
+        this.entries.set(config.srcPath, {
+            config: config,
+            status: {
+                identifier: config.srcPath,
+                name: config.name,
+                srcPath: config.srcPath,
+                state: JobState.QUEUED,
+                attempts: config.attempts || 0,
+                queuedAt: now,
+                updatedAt: now
+            },
+            run: entry ? entry.run : 0
+        });
+    }
+
+    /**
+     * Start
+     * @param identifier Job Identifier
+     * @returns Run
+     */
+    public start(identifier: JobIdentifier): number {
+        const entry = this.entries.get(identifier);
+
+        if (!entry) return 0;
+
+        entry.run++;
+        entry.status.startedAt = new Date().toISOString();
+        entry.status.finishedAt = undefined;
+        entry.status.reason = undefined;
+
+        this.apply(entry, JobState.PROBING);
+
+        return entry.run;
+    }
+
+    /**
+     * Transition
+     * A finished job stays finished, only {@link queue} and {@link start} bring it back.
+     * @param identifier Job Identifier
+     * @param state State
+     * @param details Details
+     */
+    public transition(identifier: JobIdentifier, state: JobState, details: JobStatusDetails = {}): void {
+        const entry = this.entries.get(identifier);
+
+        if (!entry || JobRegistry.FINISHED_STATES.includes(entry.status.state)) return;
+
+        this.apply(entry, state, details);
+    }
+
+    /**
+     * Set Progress
+     * @param identifier Job Identifier
+     * @param progress Progress
+     */
+    public setProgress(identifier: JobIdentifier, progress: JobProgress): void {
+        const entry = this.entries.get(identifier);
+
+        if (!entry) return;
+
+        entry.status.progress = progress;
+        entry.status.updatedAt = new Date().toISOString();
+    }
+
+    /**
+     * Remove
+     * @param identifier Job Identifier
+     */
+    public remove(identifier: JobIdentifier): void {
+        this.entries.delete(identifier);
+    }
+
+    /**
+     * Apply
+     * @param entry Job Registry Entry
+     * @param state State
+     * @param details Details
+     */
+    private apply(entry: JobRegistryEntry, state: JobState, details: JobStatusDetails = {}): void {
+        const now = new Date().toISOString();
+
+        entry.status.state = state;
+        entry.status.actionIndex = details.actionIndex;
+        entry.status.actionName = details.actionName;
+        entry.status.progress = undefined;
+        entry.status.updatedAt = now;
+
+        if (details.reason !== undefined) {
+            entry.status.reason = details.reason;
+        }
+
+        if (JobRegistry.FINISHED_STATES.includes(state)) {
+            entry.status.finishedAt = now;
+
+            this.prune();
+        }
+    }
+
+    /**
+     * Copy Status
+     * Statuses leave the registry as copies, so nothing outside of it can change the state of a job.
+     * @param status Job Status
+     * @returns Copy of the Job Status
+     */
+    private static copyStatus(status: JobStatus): JobStatus {
+        return { ...status, progress: status.progress ? { ...status.progress } : undefined };
+    }
+
+    /** Prune */
+    private prune(): void {
+        const finished = Array.from(this.entries.values()).filter(entry => JobRegistry.FINISHED_STATES.includes(entry.status.state));
+
+        for (const entry of finished.slice(0, Math.max(0, finished.length - JobRegistry.FINISHED_JOBS_LIMIT))) {
+            this.entries.delete(entry.status.identifier);
+        }
+    }
+}
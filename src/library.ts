@@ -1,12 +1,13 @@
 import { parse, sep } from 'path';
 
-import getInfo, { FFProbeResult } from 'ffprobe';
-import ffprobeStatic from 'ffprobe-static';
+import { FFProbeResult } from 'ffprobe';
 import { Stats } from 'fs-extra';
 import { Logger, Logging } from '@epickris/node-logger';
 
 import { API, LibraryName } from './api';
 import { BaseDirectory, FileEvent, FileService } from './fileService';
+import { probe } from './probe';
+import { PublishService } from './publishService';
 
 /**
  * Represents a loaded Compressarr library.
@@ -33,15 +34,21 @@ export class Library {
     /** API */
     public readonly api: API;
 
+    /** Publish Service */
+    private readonly publishService: PublishService;
+
     /**
      * @param name Library Name
      * @param path Path
+     * @param api API
+     * @param publishService Publish Service
      */
-    constructor(name: LibraryName, path: string, api: API) {
+    constructor(name: LibraryName, path: string, api: API, publishService: PublishService) {
         this.log = Logger.withPrefix(name);
         this.libraryName = name;
         this.libraryPath = path;
         this.api = api;
+        this.publishService = publishService;
         this.fileService = new FileService(this.libraryPath);
     }
 
@@ -80,6 +87,8 @@ export class Library {
      * @param stats Stats
      */
     async fileAdded(path: string, stats: Stats) {
+        if (this.publishService.isSelfTriggered(path, stats)) return;
+
         const info = await this.getInfo(path);
 
         if (!info) return;
@@ -88,7 +97,7 @@ export class Library {
 
         this.log.info('Media added:', path);
 
-        this.api.registerMedia(this.libraryPath, path);
+        this.api.registerMedia(this.libraryPath, path, info);
     }
 
     /**
@@ -97,6 +106,8 @@ export class Library {
      * @param stats Stats
      */
     async fileChanged(path: string, stats: Stats) {
+        if (this.publishService.isSelfTriggered(path, stats)) return;
+
         const parsedPath = parse(path);
         const info = await this.getInfo(path);
 
@@ -104,7 +115,7 @@ export class Library {
 
         this.log.info('Media changed:', parsedPath.base);
 
-        this.api.updateMedia(this.libraryPath, path);
+        this.api.updateMedia(this.libraryPath, path, info);
     }
 
     /**
@@ -112,6 +123,8 @@ export class Library {
      * @param path Path
      */
     async fileRemoved(path: string) {
+        if (this.publishService.isRenamed(path)) return;
+
         const parsedPath = parse(path);
         const info = await this.getInfo(path);
 
@@ -129,9 +142,7 @@ export class Library {
      */
     private async getInfo(path: string): Promise<FFProbeResult | void> {
         try {
-            return await getInfo(path, {
-                path: ffprobeStatic.path
-            });
+            return await probe(path);
         } catch (error) {
             return;
         }
@@ -5,6 +5,7 @@ import { CompressarrAPI, InternalAPIEvent, LibraryName } from './api';
 import { LibraryConfig } from './bridgeService';
 import { BaseDirectory } from './fileService';
 import { Library } from './library';
+import { PublishService } from './publishService';
 
 /** Log */
 const log = Logger.internal;
@@ -29,6 +30,9 @@ export class LibraryManager {
     /** Compressarr API */
     private readonly api: CompressarrAPI;
 
+    /** Publish Service */
+    private readonly publishService: PublishService;
+
     /** Active Libraries */
     private readonly activeLibraries?: LibraryName[];
 
@@ -40,10 +44,12 @@ export class LibraryManager {
 
     /**
      * @param api Compressarr API
+     * @param publishService Publish Service
      * @param options Library Manager Options
      */
-    constructor(api: CompressarrAPI, options?: LibraryManagerOptions) {
+    constructor(api: CompressarrAPI, publishService: PublishService, options?: LibraryManagerOptions) {
         this.api = api;
+        this.publishService = publishService;
 
         if (options) {      
             this.activeLibraries = options.activeLibraries;
@@ -128,7 +134,7 @@ export class LibraryManager {
             throw new Error(`Warning: skipping library '${config.library}' since we already loaded the same library name from '${alreadyInstalled.getLibraryPath()}'.`);
         }
     
-        const library = new Library(config.name, config.library, this.api);
+        const library = new Library(config.name, config.library, this.api, this.publishService);
 
         this.libraries.set(config.name, library);
 
@@ -0,0 +1,107 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { mkdtempSync, removeSync, writeFileSync } from 'fs-extra';
+
+import { MediaLedger } from './mediaLedger';
+import { StorageService } from './storageService';
+
+describe('MediaLedger', () => {
+    let path: string;
+    let storageService: StorageService;
+
+    beforeEach(() => {
+        path = mkdtempSync(join(tmpdir(), 'compressarr-'));
+        storageService = new StorageService(join(path, 'persist'));
+        storageService.initSync();
+    });
+
+    afterEach(() => {
+        removeSync(path);
+    });
+
+    describe('fingerprint', () => {
+        it('is the same for files with the same content', () => {
+            writeFileSync(join(path, 'a.mkv'), 'media');
+            writeFileSync(join(path, 'b.mkv'), 'media');
+
+            expect(MediaLedger.fingerprint(join(path, 'a.mkv'))).toBe(MediaLedger.fingerprint(join(path, 'b.mkv')));
+        });
+
+        it('tells files of a different size or with a different start or end apart', () => {
+            const media = Buffer.alloc(3 * 1024 * 1024, 1);
+
+            writeFileSync(join(path, 'media.mkv'), media);
+            writeFileSync(join(path, 'longer.mkv'), Buffer.concat([media, Buffer.alloc(1, 1)]));
+            writeFileSync(join(path, 'start.mkv'), Buffer.concat([Buffer.alloc(1, 2), media.subarray(1)]));
+            writeFileSync(join(path, 'end.mkv'), Buffer.concat([media.subarray(1), Buffer.alloc(1, 2)]));
+
+            const fingerprints = ['media', 'longer', 'start', 'end'].map(name => MediaLedger.fingerprint(join(path, `${name}.mkv`)));
+
+            expect(new Set(fingerprints).size).toBe(4);
+        });
+
+        it('fingerprints empty files', () => {
+            writeFileSync(join(path, 'empty.mkv'), '');
+
+            expect(MediaLedger.fingerprint(join(path, 'empty.mkv'))).toMatch(/^[0-9a-f]{40}$/);
+        });
+    });
+
+    describe('pipelineSignature', () => {
+        it('changes with the job actions', () => {
+            const signature = MediaLedger.pipelineSignature([{ jobAction: 'Compressor', name: 'Compressor' }]);
+
+            expect(MediaLedger.pipelineSignature([{ jobAction: 'Compressor', name: 'Compressor' }])).toBe(signature);
+            expect(MediaLedger.pipelineSignature([{ jobAction: 'Compressor', name: 'Compressor', quality: 20 }])).not.toBe(signature);
+        });
+    });
+
+    describe('record', () => {
+        it('remembers media by its content and pipeline across restarts', () => {
+            writeFileSync(join(path, 'a.mkv'), 'media');
+
+            new MediaLedger(storageService).record(join(path, 'a.mkv'), 'pipeline');
+
+            const mediaLedger = new MediaLedger(storageService);
+
+            expect(mediaLedger.isProcessed(join(path, 'a.mkv'), 'pipeline')).toBe(true);
+            expect(mediaLedger.isProcessed(join(path, 'a.mkv'), 'other pipeline')).toBe(false);
+
+            // A renamed copy is still the same media.
+            writeFileSync(join(path, 'b.mkv'), 'media');
+
+            expect(mediaLedger.isProcessed(join(path, 'b.mkv'), 'pipeline')).toBe(true);
+        });
+
+        it('doesn\'t know media which changed since it was recorded', () => {
+            const mediaLedger = new MediaLedger(storageService);
+
+            writeFileSync(join(path, 'a.mkv'), 'media');
+            mediaLedger.record(join(path, 'a.mkv'), 'pipeline');
+            writeFileSync(join(path, 'a.mkv'), 'changed media');
+
+            expect(mediaLedger.isProcessed(join(path, 'a.mkv'), 'pipeline')).toBe(false);
+        });
+
+        it('ignores media which doesn\'t exist', () => {
+            const mediaLedger = new MediaLedger(storageService);
+
+            expect(() => mediaLedger.record(join(path, 'missing.mkv'), 'pipeline')).not.toThrow();
+            expect(mediaLedger.isProcessed(join(path, 'missing.mkv'), 'pipeline')).toBe(false);
+        });
+    });
+
+    describe('forget', () => {
+        it('forgets media by its path', () => {
+            const mediaLedger = new MediaLedger(storageService);
+
+            writeFileSync(join(path, 'a.mkv'), 'media');
+            mediaLedger.record(join(path, 'a.mkv'), 'pipeline');
+            mediaLedger.forget(join(path, 'a.mkv'));
+
+            expect(mediaLedger.isProcessed(join(path, 'a.mkv'), 'pipeline')).toBe(false);
+            expect(new MediaLedger(storageService).isProcessed(join(path, 'a.mkv'), 'pipeline')).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,175 @@
+import { createHash } from 'crypto';
+
+import { Logger, getError } from '@epickris/node-logger';
+import { closeSync, openSync, readSync, statSync } from 'fs-extra';
+
+import { JobActionConfig } from './bridgeService';
+import { StorageService } from './storageService';
+
+/** Log */
+const log = Logger.internal;
+
+/** Fingerprint */
+export type Fingerprint = string;
+
+/** Pipeline Signature */
+export type PipelineSignature = string;
+
+/** Ledger Entry */
+export interface LedgerEntry {
+
+    /** Fingerprint */
+    fingerprint: Fingerprint;
+
+    /** Pipeline Signature */
+    pipeline: PipelineSignature;
+
+    /** Path */
+    path: string;
+
+    /** Processed At */
+    processedAt: string;
+}
+
+/**
+ * Ledger of media which has already been through a pipeline.
+ */
+export class MediaLedger {
+
+    /** Ledger Item Name */
+    private static readonly LEDGER_ITEM_NAME = 'ledger.json';
+
+    /**
+     * Number of bytes read from the start and the end of a file when fingerprinting it.
+     */
+    private static readonly FINGERPRINT_CHUNK_SIZE = 1024 * 1024;
+
+    /** Storage Service */
+    private readonly storageService: StorageService;
+
+    /** Entries */
+    private readonly entries: Map<Fingerprint, LedgerEntry> = new Map();
+
+    /**
+     * @param storageService Storage Service
+     */
+    constructor(storageService: StorageService) {
+        this.storageService = storageService;
+
+        try {
+            const entries = this.storageService.getItemSync<LedgerEntry[]>(MediaLedger.LEDGER_ITEM_NAME) || [];
+
+            for (const entry of entries) {
+                this.entries.set(entry.fingerprint, entry);
+            }
+        } catch (error) {
+            log.error('There was a problem reading the media ledger, previously processed media may be processed again.');
+            log.error(getError(error));
+        }
+    }
+
+    /**
+     * Fingerprint
+     * Hashes the size together with the first and last chunk of the file, which is enough to tell media apart without reading it all.
+     * @param path Path
+     * @returns Fingerprint
+     */
+    public static fingerprint(path: string): Fingerprint {
+        const size = statSync(path).size;
+        const hash = createHash('sha1');
+        const chunkSize = Math.min(size, MediaLedger.FINGERPRINT_CHUNK_SIZE);
+        const buffer = Buffer.alloc(chunkSize);
+        const fd = openSync(path, 'r');
+
+        hash.update(size.toString());
+
+        try {
+            hash.update(buffer.subarray(0, readSync(fd, buffer, 0, chunkSize, 0)));
+            hash.update(buffer.subarray(0, readSync(fd, buffer, 0, chunkSize, size - chunkSize)));
+        } finally {
+            closeSync(fd);
+        }
+
+        return hash.digest('hex');
+    }
+
+    /**
+     * Pipeline Signature
+     * @param jobActions Job Action Configurations
+     * @returns Pipeline Signature
+     */
+    public static pipelineSignature(jobActions: JobActionConfig[]): PipelineSignature {
+        return createHash('sha1').update(JSON.stringify(jobActions)).digest('hex');
+    }
+
+    /**
+     * Is Processed?
+     * @param path Path
+     * @param pipeline Pipeline Signature
+     * @returns Processed?
+     */
+    public isProcessed(path: string, pipeline: PipelineSignature): boolean {
+        let fingerprint: Fingerprint;
+
+        try {
+            fingerprint = MediaLedger.fingerprint(path);
+        } catch (error) {
+            log.debug(getError(error));
+
+            return false;
+        }
+
+        const entry = this.entries.get(fingerprint);
+
+        return !!entry && entry.pipeline === pipeline;
+    }
+
+    /**
+     * Record
+     * @param path Path
+     * @param pipeline Pipeline Signature
+     */
+    public record(path: string, pipeline: PipelineSignature): void {
+        try {
+            const fingerprint = MediaLedger.fingerprint(path);
+
+            this.entries.set(fingerprint, {
+                fingerprint: fingerprint,
+                pipeline: pipeline,
+                path: path,
+                processedAt: new Date().toISOString()
+            });
+        } catch (error) {
+            log.error(`There was a problem recording ${path} in the media ledger.`);
+            log.error(getError(error));
+
+            return;
+        }
+
+        this.persist();
+    }
+
+    /**
+     * Forget
+     * @param path Path
+     */
+    public forget(path: string): void {
+        for (const [fingerprint, entry] of this.entries) {
+            if (entry.path === path) {
+                this.entries.delete(fingerprint);
+            }
+        }
+
+        this.persist();
+    }
+
+    /** Persist */
+    private persist(): void {
+        try {
+            this.storageService.setItemSync(MediaLedger.LEDGER_ITEM_NAME, Array.from(this.entries.values()));
+        } catch (error) {
+            log.error('There was a problem persisting the media ledger.');
+            log.error(getError(error));
+        }
+    }
+}
@@ -0,0 +1,105 @@
+import { Logger } from '@epickris/node-logger';
+import { ExifTool } from 'exiftool-vendored';
+
+import { API, JobActionOutcome } from './api';
+import { JobFailedError } from './errors';
+import { Job } from './job';
+import { MetadataJobAction } from './metadataJobAction';
+
+jest.mock('exiftool-vendored', () => ({
+    ExifTool: jest.fn()
+}));
+
+jest.mock('./probe', () => ({
+    probe: jest.fn(() => Promise.reject(new Error('not probed')))
+}));
+
+describe('MetadataJobAction', () => {
+    let job: Job;
+    let write: jest.Mock;
+    let tags: Record<string, Record<string, unknown>>;
+
+    /**
+     * Create Job Action
+     * @param config Job Action Configuration
+     * @returns Metadata Job Action
+     */
+    const createJobAction = (config: Record<string, unknown> = {}) => new MetadataJobAction(Logger.withPrefix('Metadata'), {
+        jobAction: 'Metadata',
+        name: 'Metadata',
+        tags: ['Title', 'GPSLatitude'],
+        ...config
+    }, { on: jest.fn() } as unknown as API);
+
+    beforeEach(() => {
+        tags = {
+            '/library/movie.mov': { Title: 'Holiday', GPSLatitude: 52.5 },
+            '/jobs/movie/movie-1.mov': { Title: 'Holiday', GPSLatitude: 52.5 }
+        };
+        write = jest.fn(() => Promise.resolve({ created: 0, updated: 1, unchanged: 0, warnings: [] }));
+
+        jest.mocked(ExifTool).mockImplementation(() => ({
+            write: write,
+            readRaw: jest.fn((path: string) => Promise.resolve(tags[path]))
+        }) as unknown as ExifTool);
+
+        job = new Job(Logger.withPrefix('movie'), {
+            name: 'movie',
+            srcPath: '/library/movie.mov',
+            tempPath: '/jobs/movie',
+            info: { streams: [] }
+        });
+    });
+
+    it('copies the tags of the original onto the working file', async () => {
+        job.setPath('movie-1.mov');
+
+        const result = await createJobAction().start(job, new AbortController().signal);
+
+        expect(write).toHaveBeenCalledWith('/jobs/movie/movie-1.mov', {}, {
+            writeArgs: ['-TagsFromFile', '/library/movie.mov', '-Title', '-GPSLatitude', '-overwrite_original']
+        });
+        expect(result).toEqual({
+            outcome: JobActionOutcome.CHANGED,
+            messages: [],
+            metrics: { copiedTags: 2, missingTags: 0 }
+        });
+    });
+
+    it('leaves the working file unchanged if exiftool didn\'t write it', async () => {
+        write.mockResolvedValue({ created: 0, updated: 0, unchanged: 1, warnings: [] });
+        job.setPath('movie-1.mov');
+
+        await expect(createJobAction().start(job, new AbortController().signal)).resolves.toMatchObject({ outcome: JobActionOutcome.UNCHANGED });
+    });
+
+    it('reports the tags which could not be carried over', async () => {
+        tags['/jobs/movie/movie-1.mov'] = { Title: 'Holiday' };
+        job.setPath('movie-1.mov');
+
+        await expect(createJobAction().start(job, new AbortController().signal)).resolves.toEqual({
+            outcome: JobActionOutcome.CHANGED,
+            messages: ['Could not carry over GPSLatitude.'],
+            metrics: { copiedTags: 1, missingTags: 1 }
+        });
+    });
+
+    it('fails for good if a required tag could not be carried over', async () => {
+        tags['/jobs/movie/movie-1.mov'] = {};
+        write.mockRejectedValue(new Error('Unsupported file type'));
+        job.setPath('movie-1.mov');
+
+        const start = createJobAction({ required: true }).start(job, new AbortController().signal);
+
+        await expect(start).rejects.toBeInstanceOf(JobFailedError);
+        await expect(start).rejects.toMatchObject({
+            message: 'Could not carry over Title, GPSLatitude. Unsupported file type',
+            retryable: false
+        });
+    });
+
+    it('does nothing if no earlier job action produced an output', async () => {
+        await expect(createJobAction().start(job, new AbortController().signal)).resolves.toMatchObject({ outcome: JobActionOutcome.UNCHANGED });
+        expect(write).not.toHaveBeenCalled();
+    });
+});
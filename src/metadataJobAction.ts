@@ -0,0 +1,161 @@
+import { Logging, getErrorMessage } from '@epickris/node-logger';
+import { ExifTool, Tags } from 'exiftool-vendored';
+
+import { API, APIEvent, JobActionOutcome, JobActionResult, JobIdentifier } from './api';
+import { JobActionConfig } from './bridgeService';
+import { JobFailedError, KillError } from './errors';
+import { Job } from './job';
+import { JobAction } from './jobAction';
+
+/** Metadata Job Action Configuration */
+export interface MetadataJobActionConfig extends JobActionConfig {
+
+    /**
+     * Tags copied from the original, titles, dates, GPS, tags and artwork by default.
+     */
+    tags?: string[];
+
+    /**
+     * Fail the job when a tag of the original couldn't be carried over, disabled by default.
+     */
+    required?: boolean;
+}
+
+/**
+ * Metadata Job Action
+ * Copies the metadata of the original onto the working file with exiftool, as far as the container of the working file supports it.
+ */
+export class MetadataJobAction implements JobAction {
+
+    /** API Version */
+    static readonly apiVersion = 0.2;
+
+    /**
+     * Default Tags, GPS coordinates need their references to carry over.
+     */
+    private static readonly DEFAULT_TAGS = [
+        'Title', 'Description', 'Comment', 'Artist', 'Album', 'Genre', 'Keywords', 'Subject', 'Copyright', 'Rating',
+        'CreateDate', 'ModifyDate', 'DateTimeOriginal', 'CreationDate', 'ContentCreateDate', 'MediaCreateDate', 'TrackCreateDate',
+        'GPSCoordinates', 'GPSLatitude', 'GPSLatitudeRef', 'GPSLongitude', 'GPSLongitudeRef', 'GPSAltitude', 'GPSAltitudeRef',
+        'Make', 'Model', 'CoverArt'
+    ];
+
+    /** Log */
+    private readonly log: Logging;
+
+    /** Configuration */
+    private readonly config: MetadataJobActionConfig;
+
+    /** ExifTool, started on first use. */
+    private exiftool: ExifTool | undefined;
+
+    /** Running Jobs */
+    private readonly running: Set<JobIdentifier> = new Set();
+
+    /** Jobs which were killed. */
+    private readonly killed: Set<JobIdentifier> = new Set();
+
+    /**
+     * @param log Log
+     * @param config Job Action Configuration
+     * @param api API
+     */
+    constructor(log: Logging, config: JobActionConfig, api: API) {
+        this.log = log;
+        this.config = config as MetadataJobActionConfig;
+
+        api.on(APIEvent.SHUTDOWN, () => {
+            if (this.exiftool) this.exiftool.end().catch(error => this.log.debug(getErrorMessage(error)));
+        });
+    }
+
+    /**
+     * Start
+     * @param job Job
+     * @param signal Abort Signal
+     * @returns Job Action Result
+     */
+    async start(job: Job, signal: AbortSignal): Promise<JobActionResult> {
+        const original = job.identifier;
+        const output = job.getSrcPath();
+
+        if (output === original) {
+            return {
+                outcome: JobActionOutcome.UNCHANGED,
+                messages: ['Nothing to do, no earlier job action produced an output.']
+            };
+        }
+
+        const tags = this.config.tags || MetadataJobAction.DEFAULT_TAGS;
+
+        this.running.add(job.identifier);
+
+        try {
+            const exiftool = this.getExifTool();
+            const messages: string[] = [];
+            let written = false;
+
+            try {
+                const result = await exiftool.write(output, {}, {
+                    writeArgs: ['-TagsFromFile', original, ...tags.map(tag => `-${tag}`), '-overwrite_original']
+                });
+
+                written = result.updated > 0;
+                messages.push(...(result.warnings || []));
+            } catch (error) {
+                // Most likely a container exiftool can't write, every tag of the original is reported as missing below.
+                messages.push(getErrorMessage(error));
+            }
+
+            const originalTags = await exiftool.readRaw(original);
+            const outputTags = await exiftool.readRaw(output);
+            const value = (fileTags: Tags, tag: string) => JSON.stringify((fileTags as Record<string, unknown>)[tag]);
+            const present = tags.filter(tag => value(originalTags, tag) !== undefined);
+            const missing = present.filter(tag => value(originalTags, tag) !== value(outputTags, tag));
+
+            if (this.killed.has(job.identifier)) throw new KillError(`Copying the metadata of ${original} was killed.`);
+            if (signal.aborted) throw signal.reason;
+
+            if (missing.length > 0) {
+                const message = `Could not carry over ${missing.join(', ')}.`;
+
+                if (this.config.required) {
+                    throw new JobFailedError(`${message}${messages.length > 0 ? ` ${messages.join(' ')}` : ''}`, false);
+                }
+
+                messages.push(message);
+            }
+
+            return {
+                outcome: written ? JobActionOutcome.CHANGED : JobActionOutcome.UNCHANGED,
+                messages: messages,
+                metrics: {
+                    copiedTags: present.length - missing.length,
+                    missingTags: missing.length
+                }
+            };
+        } finally {
+            this.running.delete(job.identifier);
+            this.killed.delete(job.identifier);
+        }
+    }
+
+    /**
+     * Kill
+     * exiftool finishes in moments, so it is left to finish and the job is rejected afterwards.
+     * @param identifier Job Identifier
+     */
+    async kill(identifier: JobIdentifier): Promise<void> {
+        if (this.running.has(identifier)) this.killed.add(identifier);
+    }
+
+    /**
+     * Get ExifTool
+     * @returns ExifTool
+     */
+    private getExifTool(): ExifTool {
+        if (!this.exiftool) this.exiftool = new ExifTool({ maxProcs: 1 });
+
+        return this.exiftool;
+    }
+}
@@ -0,0 +1,130 @@
+import { Logger } from '@epickris/node-logger';
+
+import { CompressarrConfig, LibraryConfig, PipelineConfig } from './bridgeService';
+import { MediaLedger } from './mediaLedger';
+import { DEFAULT_PIPELINE_NAME, getPipelineName, resolvePipelines } from './pipeline';
+
+const compressor = { jobAction: 'Compressor', name: 'Compressor', quality: 23 };
+const metadata = { jobAction: 'Metadata', name: 'Metadata' };
+
+/**
+ * Create Compressarr Configuration
+ * @param pipelines Pipelines
+ * @param libraries Libraries
+ * @returns Compressarr Configuration
+ */
+const createConfig = (pipelines: Record<string, PipelineConfig>, ...libraries: Partial<LibraryConfig>[]): CompressarrConfig => ({
+    jobActions: [compressor, metadata],
+    pipelines: pipelines,
+    libraries: libraries.map((libraryConfig, index) => ({ library: `/library/${index}`, name: `Library ${index}`, ...libraryConfig }))
+});
+
+describe('getPipelineName', () => {
+    it('names the pipeline a library runs', () => {
+        expect(getPipelineName()).toBe(DEFAULT_PIPELINE_NAME);
+        expect(getPipelineName({ library: '/movies', name: 'Movies' })).toBe(DEFAULT_PIPELINE_NAME);
+        expect(getPipelineName({ library: '/movies', name: 'Movies', pipeline: 'movies' })).toBe('movies');
+        expect(getPipelineName({ library: '/movies', name: 'Movies', pipeline: { jobActions: ['Compressor'] } })).toBe('library:Movies');
+    });
+});
+
+describe('resolvePipelines', () => {
+    it('resolves the default pipeline to the global job actions', () => {
+        const pipelines = resolvePipelines(createConfig({}));
+
+        expect(Array.from(pipelines.keys())).toEqual([DEFAULT_PIPELINE_NAME]);
+        expect(pipelines.get(DEFAULT_PIPELINE_NAME)).toEqual({
+            name: DEFAULT_PIPELINE_NAME,
+            jobActions: [compressor, metadata],
+            signature: MediaLedger.pipelineSignature([compressor, metadata])
+        });
+    });
+
+    it('only resolves the pipelines which a library runs', () => {
+        const pipelines = resolvePipelines(createConfig({ movies: {}, unused: {} }, { pipeline: 'movies' }));
+
+        expect(Array.from(pipelines.keys())).toEqual([DEFAULT_PIPELINE_NAME, 'movies']);
+    });
+
+    it('inherits the job actions and overrides their options', () => {
+        const pipelines = resolvePipelines(createConfig({
+            movies: { overrides: { Compressor: { quality: 20, jobAction: 'Other', name: 'Other' } } },
+            '4k movies': { extends: 'movies', overrides: { Compressor: { preset: 'slow' } } }
+        }, { pipeline: '4k movies' }));
+
+        expect(pipelines.get('4k movies')).toEqual(expect.objectContaining({
+            jobActions: [{ ...compressor, quality: 20, preset: 'slow' }, metadata]
+        }));
+    });
+
+    it('lists job actions in full or by the name of a global job action', () => {
+        const custom = { jobAction: 'Command', name: 'Command', command: 'true' };
+        const pipelines = resolvePipelines(createConfig({}, { name: 'Home Videos', pipeline: { jobActions: [custom, 'Compressor'] } }));
+
+        expect(pipelines.get('library:Home Videos')).toEqual(expect.objectContaining({ jobActions: [custom, compressor] }));
+    });
+
+    it('signs the pipelines by their job actions', () => {
+        const pipelines = resolvePipelines(createConfig({
+            same: { jobActions: ['Compressor', 'Metadata'] },
+            other: { overrides: { Compressor: { quality: 20 } } }
+        }, { pipeline: 'same' }, { pipeline: 'other' }));
+
+        expect((pipelines.get('same') || {}).signature).toBe((pipelines.get(DEFAULT_PIPELINE_NAME) || {}).signature);
+        expect((pipelines.get('other') || {}).signature).not.toBe((pipelines.get(DEFAULT_PIPELINE_NAME) || {}).signature);
+    });
+
+    describe('invalid pipelines', () => {
+        let error: jest.SpyInstance;
+
+        beforeEach(() => {
+            error = jest.spyOn(Logger.internal, 'error').mockImplementation(() => undefined);
+        });
+
+        afterEach(() => {
+            error.mockRestore();
+        });
+
+        it('ignores a pipeline configured under the name of the default pipeline', () => {
+            const pipelines = resolvePipelines(createConfig({ default: { jobActions: ['Metadata'] } }));
+
+            expect((pipelines.get(DEFAULT_PIPELINE_NAME) || {}).jobActions).toEqual([compressor, metadata]);
+            expect(error).toHaveBeenCalledWith('The pipeline name \'default\' is reserved for the global job actions, ignoring the pipeline configured under it.');
+        });
+
+        it('leaves out unknown pipelines', () => {
+            const pipelines = resolvePipelines(createConfig({ movies: { extends: 'unknown' } }, { pipeline: 'shows' }, { pipeline: 'movies' }));
+
+            expect(Array.from(pipelines.keys())).toEqual([DEFAULT_PIPELINE_NAME]);
+            expect(error).toHaveBeenCalledWith('Could not resolve the pipeline of the library "Library 0": There is no pipeline named \'shows\'.');
+            expect(error).toHaveBeenCalledWith('Could not resolve the pipeline of the library "Library 1": There is no pipeline named \'unknown\'.');
+        });
+
+        it('leaves out pipelines which inherit from each other', () => {
+            resolvePipelines(createConfig({
+                a: { extends: 'b' },
+                b: { extends: 'a' }
+            }, { pipeline: 'a' }));
+
+            expect(error).toHaveBeenCalledWith('Could not resolve the pipeline of the library "Library 0": The pipelines \'a\' -> \'b\' -> \'a\' inherit from each other.');
+        });
+
+        it('leaves out pipelines with unknown job actions', () => {
+            resolvePipelines(createConfig({ movies: { jobActions: ['Unknown'] } }, { pipeline: 'movies' }));
+
+            expect(error).toHaveBeenCalledWith('Could not resolve the pipeline of the library "Library 0": The pipeline \'movies\' refers to the job action \'Unknown\' which is not one of the global job actions.');
+        });
+
+        it('leaves out pipelines which override job actions they don\'t run', () => {
+            resolvePipelines(createConfig({ movies: { jobActions: ['Metadata'], overrides: { Compressor: { quality: 20 } } } }, { pipeline: 'movies' }));
+
+            expect(error).toHaveBeenCalledWith('Could not resolve the pipeline of the library "Library 0": The pipeline \'movies\' overrides the job action \'Compressor\' which it does not run.');
+        });
+
+        it('resolves the pipelines of the other libraries', () => {
+            const pipelines = resolvePipelines(createConfig({ movies: { jobActions: ['Metadata'] } }, { pipeline: 'unknown' }, { pipeline: 'movies' }));
+
+            expect((pipelines.get('movies') || {}).jobActions).toEqual([metadata]);
+        });
+    });
+});
@@ -0,0 +1,132 @@
+import { Logger, getErrorMessage } from '@epickris/node-logger';
+
+import { CompressarrConfig, JobActionConfig, LibraryConfig, PipelineConfig } from './bridgeService';
+import { MediaLedger, PipelineSignature } from './mediaLedger';
+
+/** Log */
+const log = Logger.internal;
+
+/** Default Pipeline Name, the pipeline of the global job actions. */
+export const DEFAULT_PIPELINE_NAME = 'default';
+
+/** Pipeline */
+export interface Pipeline {
+
+    /** Name */
+    name: string;
+
+    /** Job Actions, in the order they run. */
+    jobActions: JobActionConfig[];
+
+    /** Signature */
+    signature: PipelineSignature;
+}
+
+/**
+ * Get Pipeline Name
+ * @param libraryConfig Library Configuration
+ * @returns Name of the pipeline the library runs, inline pipelines are named after their library.
+ */
+export function getPipelineName(libraryConfig?: LibraryConfig): string {
+    if (!libraryConfig || !libraryConfig.pipeline) return DEFAULT_PIPELINE_NAME;
+
+    return typeof libraryConfig.pipeline === 'string' ? libraryConfig.pipeline : `library:${libraryConfig.name}`;
+}
+
+/**
+ * Resolve Pipelines
+ * Resolves the default pipeline and every pipeline a library runs, pipelines which can't be resolved are logged and left out.
+ * @param config Compressarr Configuration
+ * @returns Pipelines by Name
+ */
+export function resolvePipelines(config: CompressarrConfig): Map<string, Pipeline> {
+    const pipelineConfigs = config.pipelines || {};
+    const resolved: Map<string, JobActionConfig[]> = new Map([[DEFAULT_PIPELINE_NAME, config.jobActions]]);
+
+    if (pipelineConfigs[DEFAULT_PIPELINE_NAME]) {
+        log.error(`The pipeline name '${DEFAULT_PIPELINE_NAME}' is reserved for the global job actions, ignoring the pipeline configured under it.`);
+    }
+
+    const resolveJobAction = (jobAction: JobActionConfig | string, pipelineName: string): JobActionConfig => {
+        if (typeof jobAction !== 'string') return jobAction;
+
+        const jobActionConfig = config.jobActions.find(jobActionConfig => jobActionConfig.name === jobAction);
+
+        if (!jobActionConfig) {
+            throw new Error(`The pipeline '${pipelineName}' refers to the job action '${jobAction}' which is not one of the global job actions.`);
+        }
+
+        return jobActionConfig;
+    };
+
+    const resolve = (pipelineName: string, pipelineConfig: PipelineConfig, seen: string[]): JobActionConfig[] => {
+        let jobActions: JobActionConfig[];
+
+        if (pipelineConfig.jobActions) {
+            jobActions = pipelineConfig.jobActions.map(jobAction => resolveJobAction(jobAction, pipelineName));
+        } else {
+            jobActions = resolveNamed(pipelineConfig.extends || DEFAULT_PIPELINE_NAME, [...seen, pipelineName]);
+        }
+
+        for (const name of Object.keys(pipelineConfig.overrides || {})) {
+            if (!jobActions.some(jobAction => jobAction.name === name)) {
+                throw new Error(`The pipeline '${pipelineName}' overrides the job action '${name}' which it does not run.`);
+            }
+        }
+
+        return jobActions.map(jobAction => {
+            const override = pipelineConfig.overrides && pipelineConfig.overrides[jobAction.name];
+
+            return override ? { ...jobAction, ...override, jobAction: jobAction.jobAction, name: jobAction.name } : jobAction;
+        });
+    };
+
+    const resolveNamed = (pipelineName: string, seen: string[]): JobActionConfig[] => {
+        const jobActions = resolved.get(pipelineName);
+
+        if (jobActions) return jobActions;
+
+        if (seen.includes(pipelineName)) {
+            throw new Error(`The pipelines ${[...seen, pipelineName].map(name => `'${name}'`).join(' -> ')} inherit from each other.`);
+        }
+
+        const pipelineConfig = pipelineConfigs[pipelineName];
+
+        if (!pipelineConfig) {
+            throw new Error(`There is no pipeline named '${pipelineName}'.`);
+        }
+
+        const resolvedJobActions = resolve(pipelineName, pipelineConfig, seen);
+
+        resolved.set(pipelineName, resolvedJobActions);
+
+        return resolvedJobActions;
+    };
+
+    const pipelines: Map<string, Pipeline> = new Map();
+    const addPipeline = (name: string, jobActions: JobActionConfig[]) => pipelines.set(name, {
+        name: name,
+        jobActions: jobActions,
+        signature: MediaLedger.pipelineSignature(jobActions)
+    });
+
+    addPipeline(DEFAULT_PIPELINE_NAME, config.jobActions);
+
+    for (const libraryConfig of config.libraries) {
+        const pipelineName = getPipelineName(libraryConfig);
+
+        if (pipelines.has(pipelineName) || !libraryConfig.pipeline) continue;
+
+        try {
+            if (typeof libraryConfig.pipeline === 'string') {
+                addPipeline(pipelineName, resolveNamed(libraryConfig.pipeline, []));
+            } else {
+                addPipeline(pipelineName, resolve(pipelineName, libraryConfig.pipeline, []));
+            }
+        } catch (error) {
+            log.error(`Could not resolve the pipeline of the library "${libraryConfig.name}": ${getErrorMessage(error)}`);
+        }
+    }
+
+    return pipelines;
+}
@@ -59,13 +59,15 @@ export class Plugin {
      * @param path Path
      * @param packageJSON Package JSON
      * @param scope Scope?
+     * @param pluginInitializer Plugin Initializer of a built-in plugin, which isn't loaded from its path.
      */
-    constructor(name: PluginName, path: string, packageJSON: PackageJSON, scope?: string) {
+    constructor(name: PluginName, path: string, packageJSON: PackageJSON, scope?: string, pluginInitializer?: PluginInitializer) {
         this.pluginName = name;
         this.scope = scope;
         this.pluginPath = path;
         this.version = packageJSON.version || '0.0.0';
         this.main = packageJSON.main || './index.js';
+        this.pluginInitializer = pluginInitializer;
 
         if (packageJSON.peerDependencies && (!packageJSON.engines || !packageJSON.engines.compressarr)) {
             packageJSON.engines = packageJSON.engines || {};
@@ -162,6 +164,8 @@ export class Plugin {
                 Please inform the developer to update their plugin!`);
         }
 
+        if (this.pluginInitializer) return;
+
         const mainPath = join(this.pluginPath, this.main);
         // eslint-disable-next-line @typescript-eslint/no-var-requires -- plugins are loaded dynamically at runtime
         const pluginModules = require(mainPath);
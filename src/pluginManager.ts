@@ -5,7 +5,9 @@ import { delimiter, join, resolve } from 'path';
 import { getErrorMessage, getErrorStack, Logger } from '@epickris/node-logger';
 
 import { CompressarrAPI, InternalAPIEvent, JobActionIdentifier, JobActionName, JobActionPluginConstructor, PluginIdentifier, PluginName } from './api';
+import builtInPlugin, { BUILT_IN_PLUGIN_NAME } from './builtInPlugin';
 import { Plugin } from './plugin';
+import getVersion from './version';
 import { FFProbeResult } from 'ffprobe';
 import { Job } from './job';
 import EventEmitter from 'node:events';
@@ -174,6 +176,7 @@ export class PluginManager {
         log.info('---');
     
         this.loadInstalledPlugins();
+        this.loadBuiltInPlugin();
     
         this.plugins.forEach((plugin: Plugin, identifier: PluginIdentifier) => {
             try {
@@ -416,6 +419,21 @@ export class PluginManager {
         return plugin;
     }
 
+    /**
+     * Load Built-in Plugin
+     * The job actions shipped with Compressarr register like those of any other plugin.
+     */
+    private loadBuiltInPlugin(): void {
+        const version = getVersion();
+        const plugin = new Plugin(BUILT_IN_PLUGIN_NAME, __dirname, {
+            name: BUILT_IN_PLUGIN_NAME,
+            version: version,
+            engines: { compressarr: version }
+        }, undefined, builtInPlugin);
+
+        this.plugins.set(plugin.getPluginIdentifier(), plugin);
+    }
+
     /**
      * Load Package JSON
      * @param pluginPath Plugin Path
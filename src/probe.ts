@@ -0,0 +1,93 @@
+import getInfo, { FFProbeResult, FFProbeStream } from 'ffprobe';
+import ffprobeStatic from 'ffprobe-static';
+import { statSync } from 'fs-extra';
+
+/** Media Info, the ffprobe result of a file. */
+export type MediaInfo = FFProbeResult;
+
+/** Media Stream */
+export type MediaStream = FFProbeStream;
+
+/** Media Summary */
+export interface MediaSummary {
+
+    /** Path */
+    path: string;
+
+    /** Size in bytes. */
+    size: number;
+
+    /** Duration in seconds. */
+    duration?: number;
+
+    /** Video Codecs */
+    videoCodecs: string[];
+
+    /** Audio Codecs */
+    audioCodecs: string[];
+}
+
+/**
+ * Probe
+ * @param path Path
+ * @returns Probe Result
+ */
+export function probe(path: string): Promise<FFProbeResult> {
+    return getInfo(path, {
+        path: ffprobeStatic.path
+    });
+}
+
+/**
+ * Get Duration
+ * Matroska streams carry no duration, their `DURATION` tag is used instead.
+ * @param info Probe Result
+ * @returns Duration of the longest stream in seconds.
+ */
+export function getDuration(info: FFProbeResult): number | undefined {
+    const durations = info.streams
+        .map(stream => {
+            const duration = parseFloat(stream.duration || '');
+
+            return !isNaN(duration) ? duration : getTaggedDuration(stream);
+        })
+        .filter((duration): duration is number => duration !== undefined && !isNaN(duration));
+
+    return durations.length > 0 ? Math.max(...durations) : undefined;
+}
+
+/**
+ * Get Tagged Duration
+ * @param stream Stream
+ * @returns Duration of the `DURATION` tag in seconds, e.g. `00:42:13.120000000`, muxers may add a language like `DURATION-eng`.
+ */
+function getTaggedDuration(stream: FFProbeStream): number | undefined {
+    const tags = stream.tags || {};
+    const tag = Object.keys(tags).find(name => /^duration(-|$)/i.test(name));
+    const match = tag ? /^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/.exec((tags[tag] || '').trim()) : null;
+
+    if (!match) return undefined;
+
+    return parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseFloat(match[3]);
+}
+
+/**
+ * Summarize
+ * @param path Path
+ * @param info Probe Result, probed when left out.
+ * @returns Media Summary
+ */
+export async function summarize(path: string, info?: FFProbeResult): Promise<MediaSummary> {
+    const probeResult = info || await probe(path);
+    const codecs = (codecType: string) => probeResult.streams
+        .filter(stream => stream.codec_type === codecType)
+        .map(stream => stream.codec_name || 'unknown');
+
+    return {
+        path: path,
+        size: statSync(path).size,
+        duration: getDuration(probeResult),
+        videoCodecs: codecs('video'),
+        audioCodecs: codecs('audio')
+    };
+}
@@ -0,0 +1,298 @@
+import { ChildProcess, spawn } from 'child_process';
+
+import { Logging, getError } from '@epickris/node-logger';
+
+import { JobActionResult, JobIdentifier } from './api';
+import { JobFailedError, KillError } from './errors';
+import { Job } from './job';
+import { JobAction } from './jobAction';
+
+/** Process Options */
+export interface ProcessOptions {
+
+    /** Command */
+    command: string;
+
+    /** Arguments */
+    args: string[];
+
+    /**
+     * Explains how to fix a command which wasn't found.
+     */
+    notFoundHint: string;
+
+    /** Working Directory */
+    cwd?: string;
+
+    /** Environment */
+    env?: NodeJS.ProcessEnv;
+
+    /**
+     * Start the process in a process group of its own, so stopping it stops every process it started, e.g. those of a shell.
+     */
+    group?: boolean;
+
+    /**
+     * Exit codes which mean success, only 0 by default.
+     */
+    successExitCodes?: number[];
+
+    /**
+     * Called for every line of the output, carriage returns end a line as well.
+     */
+    onStdout?: (line: string) => void;
+
+    /**
+     * Called for every line of the error output which isn't blank.
+     */
+    onStderr?: (line: string) => void;
+}
+
+/** Running Process */
+interface RunningProcess {
+
+    /** Child Process */
+    childProcess: ChildProcess;
+
+    /**
+     * Signals go to the process group of the child process.
+     */
+    group: boolean;
+}
+
+/**
+ * Process Job Action
+ * Base of the job actions which run an external process, takes care of killing, pausing and resuming it.
+ */
+export abstract class ProcessJobAction implements JobAction {
+
+    /**
+     * Milliseconds a process gets to finish up after being asked to stop before it is killed.
+     */
+    private static readonly KILL_TIMEOUT = 10000;
+
+    /**
+     * Number of lines of error output kept to explain a failure.
+     */
+    private static readonly STDERR_LINES = 20;
+
+    /** Log */
+    protected readonly log: Logging;
+
+    /**
+     * Signal asking the process to stop, it is killed if it doesn't exit in time.
+     */
+    protected readonly stopSignal: NodeJS.Signals = 'SIGTERM';
+
+    /** Running Processes by Job Identifier */
+    private readonly processes: Map<JobIdentifier, RunningProcess> = new Map();
+
+    /** Jobs which were killed. */
+    private readonly killed: Set<JobIdentifier> = new Set();
+
+    /**
+     * @param log Log
+     */
+    protected constructor(log: Logging) {
+        this.log = log;
+    }
+
+    /**
+     * Start
+     * @param job Job
+     * @param signal Abort Signal
+     */
+    abstract start(job: Job, signal: AbortSignal): Promise<JobActionResult>;
+
+    /**
+     * Kill
+     * @param identifier Job Identifier
+     */
+    async kill(identifier: JobIdentifier): Promise<void> {
+        const runningProcess = this.processes.get(identifier);
+
+        if (!runningProcess) return;
+
+        this.killed.add(identifier);
+        this.stop(runningProcess);
+    }
+
+    /**
+     * Pause
+     * @param identifier Job Identifier
+     */
+    async pause(identifier: JobIdentifier): Promise<void> {
+        this.signal(identifier, 'SIGSTOP');
+    }
+
+    /**
+     * Resume
+     * @param identifier Job Identifier
+     */
+    async resume(identifier: JobIdentifier): Promise<void> {
+        this.signal(identifier, 'SIGCONT');
+    }
+
+    /**
+     * Run Process
+     * @param job Job
+     * @param options Process Options
+     * @param signal Abort Signal, stops the process once aborted.
+     * @returns Resolves once the process exited successfully, rejects with a {@link JobFailedError} otherwise.
+     */
+    protected runProcess(job: Job, options: ProcessOptions, signal: AbortSignal): Promise<void> {
+        const { command, args } = options;
+
+        return new Promise((resolve, reject) => {
+            if (signal.aborted) {
+                reject(signal.reason);
+
+                return;
+            }
+
+            this.log.debug(`Running ${command} ${args.join(' ')}`);
+
+            const group = !!options.group && process.platform !== 'win32';
+            const successExitCodes = options.successExitCodes || [0];
+            const childProcess = spawn(command, args, {
+                cwd: options.cwd,
+                env: options.env,
+                detached: group,
+                stdio: ['ignore', 'pipe', 'pipe']
+            });
+            const runningProcess: RunningProcess = { childProcess: childProcess, group: group };
+            const stderr: string[] = [];
+            let stdout = '';
+            let settled = false;
+
+            const abort = () => this.stop(runningProcess);
+            const settle = (error?: unknown) => {
+                if (settled) return;
+
+                settled = true;
+
+                signal.removeEventListener('abort', abort);
+
+                if (this.processes.get(job.identifier) === runningProcess) this.processes.delete(job.identifier);
+
+                const killed = this.killed.delete(job.identifier);
+
+                if (signal.aborted) {
+                    reject(signal.reason);
+                } else if (killed) {
+                    reject(new KillError(`${command} was killed.`));
+                } else if (error) {
+                    reject(error);
+                } else {
+                    resolve();
+                }
+            };
+
+            this.processes.set(job.identifier, runningProcess);
+
+            signal.addEventListener('abort', abort, { once: true });
+
+            childProcess.stdout.setEncoding('utf8');
+            childProcess.stdout.on('data', (chunk: string) => {
+                const lines = (stdout + chunk).split(/\r\n|\r|\n/);
+
+                stdout = lines.pop() || '';
+
+                if (options.onStdout) lines.forEach(options.onStdout);
+            });
+
+            childProcess.stderr.setEncoding('utf8');
+            childProcess.stderr.on('data', (chunk: string) => {
+                for (const line of chunk.split(/\r\n|\r|\n/).filter(line => line.trim() !== '')) {
+                    stderr.push(line);
+                    this.log.debug(line);
+
+                    if (options.onStderr) options.onStderr(line);
+                }
+
+                stderr.splice(0, Math.max(0, stderr.length - ProcessJobAction.STDERR_LINES));
+            });
+
+            childProcess.on('error', (error: NodeJS.ErrnoException) => {
+                if (error.code === 'ENOENT') {
+                    settle(new JobFailedError(`${command} was not found, ${options.notFoundHint}.`, false));
+                } else {
+                    settle(error);
+                }
+            });
+
+            childProcess.on('close', (code, exitSignal) => {
+                if (options.onStdout && stdout !== '') options.onStdout(stdout);
+
+                if (code !== null && successExitCodes.includes(code)) {
+                    settle();
+                } else {
+                    const reason = code !== null ? `code ${code}` : `signal ${exitSignal}`;
+
+                    settle(new JobFailedError(`${command} exited with ${reason}${stderr.length > 0 ? `: ${stderr[stderr.length - 1]}` : ''}`));
+                }
+            });
+        });
+    }
+
+    /**
+     * Stop
+     * The process is asked to finish up first, it is killed if it doesn't exit in time.
+     * @param runningProcess Running Process
+     */
+    private stop(runningProcess: RunningProcess): void {
+        const { childProcess } = runningProcess;
+        const exited = () => childProcess.exitCode !== null || childProcess.signalCode !== null;
+
+        if (exited()) return;
+
+        try {
+            this.send(runningProcess, this.stopSignal);
+
+            // A paused process only handles the signal once it continues.
+            if (process.platform !== 'win32') this.send(runningProcess, 'SIGCONT');
+        } catch (error) {
+            this.log.debug(getError(error));
+        }
+
+        setTimeout(() => {
+            try {
+                if (!exited()) this.send(runningProcess, 'SIGKILL');
+            } catch (error) {
+                this.log.debug(getError(error));
+            }
+        }, ProcessJobAction.KILL_TIMEOUT).unref();
+    }
+
+    /**
+     * Signal
+     * @param identifier Job Identifier
+     * @param signal Signal
+     */
+    private signal(identifier: JobIdentifier, signal: NodeJS.Signals): void {
+        const runningProcess = this.processes.get(identifier);
+
+        if (!runningProcess) return;
+
+        if (process.platform === 'win32') {
+            throw new Error('Processes can\'t be paused on Windows.');
+        }
+
+        this.send(runningProcess, signal);
+    }
+
+    /**
+     * Send
+     * @param runningProcess Running Process
+     * @param signal Signal
+     */
+    private send(runningProcess: RunningProcess, signal: NodeJS.Signals): void {
+        const { childProcess, group } = runningProcess;
+
+        if (group && childProcess.pid !== undefined) {
+            process.kill(-childProcess.pid, signal);
+        } else {
+            childProcess.kill(signal);
+        }
+    }
+}
@@ -0,0 +1,148 @@
+import { Logger, getError } from '@epickris/node-logger';
+
+import { StorageService } from './storageService';
+
+/** Log */
+const log = Logger.internal;
+
+/** Publish Intent State */
+export const enum PublishIntentState {
+
+    /** The output is being copied next to the destination. */
+    STAGING = 'staging',
+
+    /** The copy next to the destination is complete and verified. */
+    STAGED = 'staged',
+
+    /** The copy replaced the destination. */
+    PUBLISHED = 'published'
+}
+
+/** Publish Intent */
+export interface PublishIntent {
+
+    /** ID */
+    id: string;
+
+    /** Job output being published. */
+    outputPath: string;
+
+    /** Source Path */
+    srcPath: string;
+
+    /**
+     * Destination Path, differs from the source path when the output changed the extension.
+     */
+    destPath: string;
+
+    /**
+     * Copy of the output next to the destination, so replacing the destination is a rename on the same filesystem.
+     */
+    stagingPath: string;
+
+    /** Temporary Path of the job. */
+    tempPath: string;
+
+    /** Size of the output in bytes. */
+    size: number;
+
+    /** State */
+    state: PublishIntentState;
+
+    /** Recycled Media ID of the replaced source. */
+    recycledMediaId?: string;
+
+    /** Created At */
+    createdAt: string;
+}
+
+/**
+ * Write-ahead journal of publishes, so a publish interrupted by a crash can be finished or undone on the next start.
+ */
+export class PublishJournal {
+
+    /** Journal Item Name */
+    private static readonly JOURNAL_ITEM_NAME = 'publishJournal.json';
+
+    /** Storage Service */
+    private readonly storageService: StorageService;
+
+    /** Intents */
+    private readonly intents: Map<string, PublishIntent> = new Map();
+
+    /**
+     * @param storageService Storage Service
+     */
+    constructor(storageService: StorageService) {
+        this.storageService = storageService;
+
+        try {
+            const intents = this.storageService.getItemSync<PublishIntent[]>(PublishJournal.JOURNAL_ITEM_NAME) || [];
+
+            for (const intent of intents) {
+                this.intents.set(intent.id, intent);
+            }
+        } catch (error) {
+            log.error('There was a problem reading the publish journal, interrupted publishes can not be recovered.');
+            log.error(getError(error));
+        }
+    }
+
+    /**
+     * Get Intents
+     * @returns Unfinished Intents
+     */
+    public getIntents(): PublishIntent[] {
+        return Array.from(this.intents.values()).map(intent => ({ ...intent }));
+    }
+
+    /**
+     * Begin
+     * The intent is written before anything is touched on disk.
+     * @param intent Intent
+     */
+    public begin(intent: PublishIntent): void {
+        this.intents.set(intent.id, { ...intent });
+        this.persist(true);
+    }
+
+    /**
+     * Update
+     * @param id Intent ID
+     * @param changes Changes
+     */
+    public update(id: string, changes: Partial<Pick<PublishIntent, 'state' | 'recycledMediaId'>>): void {
+        const intent = this.intents.get(id);
+
+        if (!intent) return;
+
+        Object.assign(intent, changes);
+
+        this.persist(true);
+    }
+
+    /**
+     * Complete
+     * @param id Intent ID
+     */
+    public complete(id: string): void {
+        if (!this.intents.delete(id)) return;
+
+        this.persist();
+    }
+
+    /**
+     * Persist
+     * @param required Throw when the journal can't be written, publishing without it isn't crash-safe.
+     */
+    private persist(required = false): void {
+        try {
+            this.storageService.setItemSync(PublishJournal.JOURNAL_ITEM_NAME, Array.from(this.intents.values()));
+        } catch (error) {
+            if (required) throw error;
+
+            log.error('There was a problem persisting the publish journal.');
+            log.error(getError(error));
+        }
+    }
+}
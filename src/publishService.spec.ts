@@ -0,0 +1,390 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { FFProbeResult, FFProbeStream } from 'ffprobe';
+import { copyFileSync, existsSync, mkdtempSync, outputFileSync, readdirSync, readFileSync, removeSync, statSync, writeFileSync } from 'fs-extra';
+
+import { RecycleBinConfig } from './bridgeService';
+import { probe } from './probe';
+import { PublishIntent, PublishIntentState, PublishJournal } from './publishJournal';
+import { PublishService } from './publishService';
+import { RecycleBin } from './recycleBin';
+import { StorageService } from './storageService';
+
+jest.mock('fs-extra', () => ({
+    ...jest.requireActual('fs-extra'),
+    copyFileSync: jest.fn(jest.requireActual('fs-extra').copyFileSync)
+}));
+
+jest.mock('./probe', () => ({
+    ...jest.requireActual('./probe'),
+    probe: jest.fn()
+}));
+
+/**
+ * Create Probe Result
+ * @param streams Streams
+ * @returns Probe Result
+ */
+const createProbeResult = (...streams: Partial<FFProbeStream>[]): FFProbeResult => ({
+    streams: streams.map((stream, index) => ({ index: index, nb_frames: 100, ...stream }))
+} as FFProbeResult);
+
+describe('PublishService', () => {
+    let path: string;
+    let storageService: StorageService;
+    let recycleBin: RecycleBin;
+    let publishService: PublishService;
+
+    /**
+     * Create Publish Service
+     * Reloads the journal and the recycle bin, like a restart does.
+     * @param config Recycle Bin Configuration
+     * @returns Publish Service
+     */
+    const createPublishService = (config: RecycleBinConfig = {}) => {
+        recycleBin = new RecycleBin(storageService, { path: join(path, 'recycle bin'), ...config });
+
+        return new PublishService(new PublishJournal(storageService), recycleBin);
+    };
+
+    /**
+     * Begin Intent
+     * Journals an intent the way an interrupted publish leaves it behind.
+     * @param state State
+     * @param staged Contents of the staged copy, none is written when left out.
+     * @returns Intent
+     */
+    const beginIntent = (state: PublishIntentState, staged?: string): PublishIntent => {
+        const intent: PublishIntent = {
+            id: 'intent',
+            outputPath: join(path, 'job', 'output.mkv'),
+            srcPath: join(path, 'source.mkv'),
+            destPath: join(path, 'source.mkv'),
+            stagingPath: join(path, '.source.mkv.intent.compressarr-staging'),
+            tempPath: join(path, 'job'),
+            size: 6,
+            state: state,
+            createdAt: new Date().toISOString()
+        };
+
+        if (staged !== undefined) writeFileSync(intent.stagingPath, staged);
+
+        new PublishJournal(storageService).begin(intent);
+
+        return intent;
+    };
+
+    beforeEach(() => {
+        path = mkdtempSync(join(tmpdir(), 'compressarr-'));
+        storageService = new StorageService(join(path, 'persist'));
+        storageService.initSync();
+        publishService = createPublishService();
+
+        writeFileSync(join(path, 'source.mkv'), Buffer.alloc(1000));
+        outputFileSync(join(path, 'job', 'output.mkv'), 'output');
+    });
+
+    afterEach(() => {
+        removeSync(path);
+    });
+
+    describe('publish', () => {
+        it('replaces the source and recycles it', () => {
+            const { path: publishedPath, intentId } = publishService.publish(join(path, 'job', 'output.mkv'), join(path, 'source.mkv'), join(path, 'job'));
+            const [recycledMedia] = recycleBin.getRecycledMedia();
+
+            expect(publishedPath).toBe(join(path, 'source.mkv'));
+            expect(readFileSync(join(path, 'source.mkv'), 'utf8')).toBe('output');
+            expect(readdirSync(path).filter(file => file.endsWith('.compressarr-staging'))).toEqual([]);
+            expect(recycledMedia).toEqual(expect.objectContaining({ originalPath: join(path, 'source.mkv'), size: 1000 }));
+            expect(statSync(recycledMedia.recycledPath).size).toBe(1000);
+            expect(new PublishJournal(storageService).getIntents()).toEqual([
+                expect.objectContaining({ id: intentId, state: PublishIntentState.PUBLISHED, recycledMediaId: recycledMedia.id })
+            ]);
+        });
+
+        it('only lets retention delete the original once it is published', () => {
+            publishService = createPublishService({ maxSize: 0 });
+            publishService.publish(join(path, 'job', 'output.mkv'), join(path, 'source.mkv'), join(path, 'job'));
+
+            expect(readFileSync(join(path, 'source.mkv'), 'utf8')).toBe('output');
+            expect(recycleBin.getRecycledMedia()).toEqual([]);
+        });
+
+        it('forgets the intent once it is completed', () => {
+            const { intentId } = publishService.publish(join(path, 'job', 'output.mkv'), join(path, 'source.mkv'), join(path, 'job'));
+
+            publishService.complete(intentId as string);
+
+            expect(new PublishJournal(storageService).getIntents()).toEqual([]);
+        });
+
+        it('leaves a source which was changed in place alone', () => {
+            expect(publishService.publish(join(path, 'source.mkv'), join(path, 'source.mkv'), join(path, 'job'))).toEqual({ path: join(path, 'source.mkv') });
+            expect(recycleBin.getRecycledMedia()).toEqual([]);
+            expect(new PublishJournal(storageService).getIntents()).toEqual([]);
+        });
+
+        it('publishes under the extension of the output and moves the sidecars along', () => {
+            outputFileSync(join(path, 'job', 'output.mp4'), 'output');
+            writeFileSync(join(path, 'source.mkv.srt'), 'subtitles');
+
+            const { path: publishedPath } = publishService.publish(join(path, 'job', 'output.mp4'), join(path, 'source.mkv'), join(path, 'job'));
+
+            expect(publishedPath).toBe(join(path, 'source.mp4'));
+            expect(readFileSync(join(path, 'source.mp4'), 'utf8')).toBe('output');
+            expect(readFileSync(join(path, 'source.mp4.srt'), 'utf8')).toBe('subtitles');
+            expect(existsSync(join(path, 'source.mkv'))).toBe(false);
+            expect(existsSync(join(path, 'source.mkv.srt'))).toBe(false);
+            expect(recycleBin.getRecycledMedia()).toEqual([expect.objectContaining({ originalPath: join(path, 'source.mkv') })]);
+            expect(publishService.isRenamed(join(path, 'source.mkv'))).toBe(true);
+            expect(publishService.isRenamed(join(path, 'source.mkv'))).toBe(false);
+        });
+
+        it('refuses to publish over another file with the new extension', () => {
+            outputFileSync(join(path, 'job', 'output.mp4'), 'output');
+            writeFileSync(join(path, 'source.mp4'), 'other');
+
+            expect(() => publishService.publish(join(path, 'job', 'output.mp4'), join(path, 'source.mkv'), join(path, 'job'))).toThrow(`Can't publish ${join(path, 'source.mp4')}, another file with that name already exists.`);
+            expect(readFileSync(join(path, 'source.mp4'), 'utf8')).toBe('other');
+            expect(statSync(join(path, 'source.mkv')).size).toBe(1000);
+        });
+
+        it('rolls back when the staged copy differs from the output', () => {
+            const output = Buffer.alloc(3 * 1024 * 1024, 1);
+            jest.mocked(copyFileSync).mockImplementationOnce((src, dest) => {
+                const copy = Buffer.from(output);
+
+                // Only the middle differs, the copy has the size of the output and starts and ends like it.
+                copy[copy.length / 2] = 0;
+                writeFileSync(dest as string, copy);
+            });
+
+            writeFileSync(join(path, 'job', 'output.mkv'), output);
+
+            expect(() => publishService.publish(join(path, 'job', 'output.mkv'), join(path, 'source.mkv'), join(path, 'job')))
+                .toThrow(`The copy of ${join(path, 'job', 'output.mkv')} next to ${join(path, 'source.mkv')} does not match the output.`);
+            expect(statSync(join(path, 'source.mkv')).size).toBe(1000);
+            expect(readdirSync(path).filter(file => file.endsWith('.compressarr-staging'))).toEqual([]);
+            expect(new PublishJournal(storageService).getIntents()).toEqual([]);
+        });
+
+        it('rolls back when the output can\'t be staged', () => {
+            expect(() => publishService.publish(join(path, 'job', 'output.mkv'), join(path, 'missing', 'source.mkv'), join(path, 'job'))).toThrow();
+            expect(existsSync(join(path, 'job', 'output.mkv'))).toBe(true);
+            expect(new PublishJournal(storageService).getIntents()).toEqual([]);
+        });
+    });
+
+    describe('recover', () => {
+        it('rolls back a publish interrupted while staging', () => {
+            const intent = beginIntent(PublishIntentState.STAGING, 'out');
+
+            expect(createPublishService().recover()).toEqual([]);
+            expect(existsSync(intent.stagingPath)).toBe(false);
+            expect(statSync(intent.destPath).size).toBe(1000);
+            expect(new PublishJournal(storageService).getIntents()).toEqual([]);
+        });
+
+        it('rolls a publish interrupted once staged forward', () => {
+            const intent = beginIntent(PublishIntentState.STAGED, 'output');
+            const published = createPublishService().recover();
+
+            expect(published).toEqual([expect.objectContaining({ id: intent.id, state: PublishIntentState.PUBLISHED })]);
+            expect(readFileSync(intent.destPath, 'utf8')).toBe('output');
+            expect(existsSync(intent.tempPath)).toBe(false);
+            expect(recycleBin.getRecycledMedia()).toEqual([expect.objectContaining({ originalPath: intent.destPath })]);
+        });
+
+        it('rolls a publish forward whose staged copy was already renamed', () => {
+            const intent = beginIntent(PublishIntentState.STAGED);
+
+            writeFileSync(intent.destPath, 'output');
+
+            expect(createPublishService().recover()).toEqual([expect.objectContaining({ id: intent.id, state: PublishIntentState.PUBLISHED })]);
+            expect(readFileSync(intent.destPath, 'utf8')).toBe('output');
+        });
+
+        it('rolls a staged publish back and restores the original if the staged copy is incomplete', () => {
+            const recycledMedia = new RecycleBin(storageService, { path: join(path, 'recycle bin') }).recycle(join(path, 'source.mkv'));
+            const intent = beginIntent(PublishIntentState.STAGED, 'out');
+
+            new PublishJournal(storageService).update(intent.id, { recycledMediaId: recycledMedia.id });
+
+            expect(createPublishService().recover()).toEqual([]);
+            expect(existsSync(intent.stagingPath)).toBe(false);
+            expect(statSync(intent.destPath).size).toBe(1000);
+            expect(new PublishJournal(storageService).getIntents()).toEqual([]);
+        });
+
+        it('keeps the original of an interrupted publish from retention until it is rolled back', () => {
+            const recycledMedia = new RecycleBin(storageService, { path: join(path, 'recycle bin') }).recycle(join(path, 'source.mkv'));
+            const intent = beginIntent(PublishIntentState.STAGING, 'out');
+
+            new PublishJournal(storageService).update(intent.id, { recycledMediaId: recycledMedia.id });
+            publishService = createPublishService({ maxSize: 0 });
+            recycleBin.enforceRetention();
+
+            expect(recycleBin.getRecycledMedia()).toEqual([recycledMedia]);
+            expect(publishService.recover()).toEqual([]);
+            expect(statSync(intent.destPath).size).toBe(1000);
+        });
+
+        it('cleans up after a publish interrupted once published', () => {
+            const intent = beginIntent(PublishIntentState.PUBLISHED);
+
+            publishService = createPublishService();
+
+            expect(publishService.recover()).toEqual([expect.objectContaining({ id: intent.id })]);
+            expect(existsSync(intent.tempPath)).toBe(false);
+            expect(statSync(intent.destPath).size).toBe(1000);
+            expect(publishService.isSelfTriggered(intent.destPath, statSync(intent.destPath))).toBe(true);
+
+            // The intent is kept until the media ledger knows about the published media.
+            expect(new PublishJournal(storageService).getIntents()).toHaveLength(1);
+        });
+    });
+
+    describe('checkPublishPolicy', () => {
+        it('accepts any output without a policy', () => {
+            writeFileSync(join(path, 'output.mkv'), Buffer.alloc(2000));
+
+            expect(publishService.checkPublishPolicy(join(path, 'output.mkv'), join(path, 'source.mkv'), {})).toBeUndefined();
+        });
+
+        it('accepts a source which was changed in place', () => {
+            expect(publishService.checkPublishPolicy(join(path, 'source.mkv'), join(path, 'source.mkv'), { minSavedPercent: 10 })).toBeUndefined();
+        });
+
+        it('rejects outputs which are larger than their source', () => {
+            writeFileSync(join(path, 'output.mkv'), Buffer.alloc(1500));
+
+            expect(publishService.checkPublishPolicy(join(path, 'output.mkv'), join(path, 'source.mkv'), { neverLarger: true })).toBe('output is 500 bytes larger than the source');
+        });
+
+        it('rejects outputs which don\'t save enough', () => {
+            writeFileSync(join(path, 'output.mkv'), Buffer.alloc(950));
+
+            expect(publishService.checkPublishPolicy(join(path, 'output.mkv'), join(path, 'source.mkv'), { minSavedPercent: 10 })).toBe('output saves 5.0%, less than the required 10%');
+
+            writeFileSync(join(path, 'output.mkv'), Buffer.alloc(900));
+
+            expect(publishService.checkPublishPolicy(join(path, 'output.mkv'), join(path, 'source.mkv'), { minSavedPercent: 10 })).toBeUndefined();
+        });
+
+        it('rejects outputs which are too large', () => {
+            writeFileSync(join(path, 'source.mkv'), Buffer.alloc(3 * 1024 * 1024));
+            writeFileSync(join(path, 'output.mkv'), Buffer.alloc(2 * 1024 * 1024 + 1));
+
+            expect(publishService.checkPublishPolicy(join(path, 'output.mkv'), join(path, 'source.mkv'), { maxSize: 2 })).toBe('output is larger than 2 MB');
+        });
+    });
+
+    describe('isSelfTriggered', () => {
+        it('recognizes published files until they change', () => {
+            publishService.publish(join(path, 'job', 'output.mkv'), join(path, 'source.mkv'), join(path, 'job'));
+
+            expect(publishService.isSelfTriggered(join(path, 'source.mkv'), statSync(join(path, 'source.mkv')))).toBe(true);
+
+            writeFileSync(join(path, 'source.mkv'), 'changed output');
+
+            expect(publishService.isSelfTriggered(join(path, 'source.mkv'), statSync(join(path, 'source.mkv')))).toBe(false);
+        });
+
+        it('ignores staged copies', () => {
+            writeFileSync(join(path, '.source.mkv.intent.compressarr-staging'), 'output');
+
+            expect(publishService.isSelfTriggered(join(path, '.source.mkv.intent.compressarr-staging'), statSync(join(path, '.source.mkv.intent.compressarr-staging')))).toBe(true);
+        });
+    });
+
+    describe('validate', () => {
+        const source = createProbeResult(
+            { codec_type: 'video', duration: '60.0' },
+            { codec_type: 'audio', duration: '60.0' }
+        );
+
+        /**
+         * Validate
+         * @param output Probe Result of the output.
+         * @param config Validation Configuration
+         * @returns Validation
+         */
+        const validate = (output: FFProbeResult | Error, config = {}) => {
+            jest.mocked(probe).mockImplementation(async probePath => {
+                if (probePath === join(path, 'source.mkv')) return source;
+                if (output instanceof Error) throw output;
+
+                return output;
+            });
+
+            return publishService.validate(join(path, 'output.mkv'), join(path, 'source.mkv'), config);
+        };
+
+        beforeEach(() => {
+            jest.mocked(probe).mockReset();
+        });
+
+        it('accepts an output which matches its source', async () => {
+            await expect(validate(createProbeResult(
+                { codec_type: 'video', duration: '61.5' },
+                { codec_type: 'audio', duration: '60.0' }
+            ))).resolves.toBeUndefined();
+        });
+
+        it('rejects an output which isn\'t readable', async () => {
+            await expect(validate(new Error('Invalid data found when processing input'))).rejects.toThrow('Output validation failed, the output is not readable: Invalid data found when processing input');
+        });
+
+        it('rejects an output whose duration differs', async () => {
+            const output = createProbeResult(
+                { codec_type: 'video', duration: '50.0' },
+                { codec_type: 'audio', duration: '50.0' }
+            );
+
+            await expect(validate(output)).rejects.toThrow('Output validation failed: duration 50.0s differs from 60.0s by more than 2s.');
+            await expect(validate(output, { durationTolerance: 10 })).resolves.toBeUndefined();
+        });
+
+        it('reads the duration of Matroska streams from their tags', async () => {
+            const output = createProbeResult(
+                { codec_type: 'video', tags: { DURATION: '00:00:50.000000000' } },
+                { codec_type: 'audio', tags: { 'DURATION-eng': '00:01:00.500000000' } }
+            );
+
+            await expect(validate(output)).resolves.toBeUndefined();
+            await expect(validate(createProbeResult(
+                { codec_type: 'video', tags: { DURATION: '00:00:50.000000000' } },
+                { codec_type: 'audio' }
+            ))).rejects.toThrow('Output validation failed: duration 50.0s differs from 60.0s by more than 2s.');
+        });
+
+        it('skips the duration check if the duration of the output is unknown', async () => {
+            await expect(validate(createProbeResult({ codec_type: 'video' }, { codec_type: 'audio' }))).resolves.toBeUndefined();
+        });
+
+        it('rejects an output which lost streams', async () => {
+            const output = createProbeResult({ codec_type: 'video', duration: '60.0' });
+
+            await expect(validate(output)).rejects.toThrow('Output validation failed: 0 of 1 audio streams kept.');
+            await expect(validate(output, { keepAudioStreams: false })).resolves.toBeUndefined();
+        });
+
+        it('rejects an output with empty streams', async () => {
+            const output = createProbeResult(
+                { codec_type: 'video', duration: '60.0' },
+                { codec_type: 'audio', duration: '60.0', nb_frames: 0 }
+            );
+
+            await expect(validate(output)).rejects.toThrow('Output validation failed: streams 1 are empty.');
+            await expect(validate(output, { rejectEmptyStreams: false })).resolves.toBeUndefined();
+        });
+
+        it('skips validation when it is turned off or the source was changed in place', async () => {
+            await expect(validate(new Error('unreadable'), { enabled: false })).resolves.toBeUndefined();
+            await expect(publishService.validate(join(path, 'source.mkv'), join(path, 'source.mkv'), {})).resolves.toBeUndefined();
+            expect(probe).not.toHaveBeenCalled();
+        });
+    });
+});
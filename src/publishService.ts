@@ -0,0 +1,495 @@
+import { randomBytes } from 'crypto';
+import { basename, dirname, extname, join, parse } from 'path';
+
+import { Logger, getError, getErrorMessage } from '@epickris/node-logger';
+import { FFProbeResult } from 'ffprobe';
+import { closeSync, copyFileSync, existsSync, openSync, outputJsonSync, readdirSync, readSync, removeSync, renameSync, Stats, statSync } from 'fs-extra';
+import { rimrafSync } from 'rimraf';
+
+import { PublishPolicyConfig, ValidationConfig } from './bridgeService';
+import { JobFailedError } from './errors';
+import { getDuration, MediaSummary, probe, summarize } from './probe';
+import { PublishIntent, PublishIntentState, PublishJournal } from './publishJournal';
+import { RecycleBin } from './recycleBin';
+
+/** Log */
+const log = Logger.internal;
+
+/** Published File */
+interface PublishedFile {
+
+    /** Size */
+    size: number;
+
+    /** Modified Time */
+    mtimeMs: number;
+
+    /** Inode */
+    ino: number;
+}
+
+/** Publish Result */
+export interface PublishResult {
+
+    /** Path the media was published to. */
+    path: string;
+
+    /** Intent ID, to be completed once the job is cleaned up. */
+    intentId?: string;
+}
+
+/** Dry Run Report */
+export interface DryRunReport {
+
+    /** Created At */
+    createdAt: string;
+
+    /** Source */
+    source: MediaSummary;
+
+    /** Output */
+    output: MediaSummary;
+
+    /** Saved Bytes */
+    savedBytes: number;
+
+    /** Saved Percent */
+    savedPercent: number;
+}
+
+/**
+ * Publishes finished jobs into their libraries and remembers the files it has written,
+ * so the library watchers can tell our own writes apart from real changes.
+ */
+export class PublishService {
+
+    /** Dry Run Report Name */
+    public static readonly DRY_RUN_REPORT_NAME = 'report.json';
+
+    /** Extension of staged copies, the library watchers ignore them. */
+    private static readonly STAGING_EXTENSION = '.compressarr-staging';
+
+    /**
+     * Number of bytes compared at a time when verifying a staged copy.
+     */
+    private static readonly COMPARE_CHUNK_SIZE = 1024 * 1024;
+
+    /** Published Files */
+    private readonly publishedFiles: Map<string, PublishedFile> = new Map();
+
+    /**
+     * Sources which were published under a new extension, their removal is not a real removal.
+     */
+    private readonly renamedFiles: Set<string> = new Set();
+
+    /**
+     * @param journal Publish Journal
+     * @param recycleBin Recycle Bin, replaced originals are deleted without one.
+     */
+    constructor(
+        private readonly journal: PublishJournal,
+        private readonly recycleBin?: RecycleBin
+    ) {
+        // Originals of interrupted publishes are needed to roll them back, retention must wait for the recovery.
+        for (const intent of journal.getIntents()) {
+            if (recycleBin && intent.recycledMediaId && intent.state !== PublishIntentState.PUBLISHED) {
+                recycleBin.hold(intent.recycledMediaId);
+            }
+        }
+    }
+
+    /**
+     * Get Destination Path
+     * The published media takes the extension of the output, so a changed container isn't hidden behind the old extension.
+     * @param outputPath Output Path
+     * @param srcPath Source Path
+     * @returns Destination Path
+     */
+    public static getDestPath(outputPath: string, srcPath: string): string {
+        const parsedSrcPath = parse(srcPath);
+
+        return join(parsedSrcPath.dir, parsedSrcPath.name + extname(outputPath));
+    }
+
+    /**
+     * Publish
+     * Copies the output next to the destination, verifies the copy and renames it over the destination,
+     * so the destination is never left truncated, even when the job lives on a different filesystem.
+     * @param outputPath Output Path
+     * @param srcPath Source Path
+     * @param tempPath Temporary Path of the job.
+     * @returns Publish Result
+     */
+    public publish(outputPath: string, srcPath: string, tempPath: string): PublishResult {
+        if (outputPath === srcPath) {
+            this.remember(srcPath);
+
+            return {
+                path: srcPath
+            };
+        }
+
+        const destPath = PublishService.getDestPath(outputPath, srcPath);
+
+        if (destPath !== srcPath && existsSync(destPath)) {
+            throw new JobFailedError(`Can't publish ${destPath}, another file with that name already exists.`, false);
+        }
+
+        const id = `${Date.now()}-${randomBytes(4).toString('hex')}`;
+        const intent: PublishIntent = {
+            id: id,
+            outputPath: outputPath,
+            srcPath: srcPath,
+            destPath: destPath,
+            stagingPath: join(dirname(destPath), `.${basename(destPath)}.${id}${PublishService.STAGING_EXTENSION}`),
+            tempPath: tempPath,
+            size: statSync(outputPath).size,
+            state: PublishIntentState.STAGING,
+            createdAt: new Date().toISOString()
+        };
+
+        this.journal.begin(intent);
+
+        try {
+            copyFileSync(outputPath, intent.stagingPath);
+
+            if (statSync(intent.stagingPath).size !== intent.size || !PublishService.isSameContent(intent.stagingPath, outputPath)) {
+                throw new Error(`The copy of ${outputPath} next to ${destPath} does not match the output.`);
+            }
+
+            intent.state = PublishIntentState.STAGED;
+            this.journal.update(id, { state: intent.state });
+
+            this.replace(intent);
+        } catch (error) {
+            this.rollBack(intent);
+
+            throw error;
+        }
+
+        return {
+            path: destPath,
+            intentId: id
+        };
+    }
+
+    /**
+     * Complete
+     * @param id Intent ID
+     */
+    public complete(id: string): void {
+        this.journal.complete(id);
+    }
+
+    /**
+     * Recover
+     * Rolls publishes interrupted by a crash forward when the staged copy is complete, and back otherwise.
+     * @returns Intents which were rolled forward, to be completed with {@link complete} once the media ledger knows about them.
+     */
+    public recover(): PublishIntent[] {
+        const published: PublishIntent[] = [];
+        const hasSize = (path: string, size: number) => existsSync(path) && statSync(path).size === size;
+
+        for (const intent of this.journal.getIntents()) {
+            try {
+                // The staged copy may already have been renamed when the crash happened.
+                if (intent.state === PublishIntentState.STAGED && (hasSize(intent.stagingPath, intent.size) || (!existsSync(intent.stagingPath) && hasSize(intent.destPath, intent.size)))) {
+                    this.replace(intent);
+                }
+
+                if (intent.state === PublishIntentState.PUBLISHED) {
+                    rimrafSync(intent.tempPath);
+
+                    if (existsSync(intent.destPath)) this.remember(intent.destPath);
+
+                    log.info(`Finished publishing ${intent.destPath} which was interrupted.`);
+
+                    published.push(intent);
+                } else {
+                    this.rollBack(intent);
+
+                    log.warn(`Rolled back the interrupted publish of ${intent.destPath}.`);
+                }
+            } catch (error) {
+                log.error(`There was a problem recovering the interrupted publish of ${intent.destPath}.`);
+                log.error(getError(error));
+            }
+        }
+
+        if (this.recycleBin) this.recycleBin.enforceRetention();
+
+        return published;
+    }
+
+    /**
+     * Validate
+     * Probes the output and compares it to the source, an invalid output must never replace the source.
+     * @param outputPath Output Path
+     * @param srcPath Source Path
+     * @param config Validation Configuration
+     */
+    public async validate(outputPath: string, srcPath: string, config: ValidationConfig): Promise<void> {
+        if (outputPath === srcPath || config.enabled === false) return;
+
+        let output: FFProbeResult;
+
+        try {
+            output = await probe(outputPath);
+        } catch (error) {
+            throw new JobFailedError(`Output validation failed, the output is not readable: ${getErrorMessage(error)}`, false);
+        }
+
+        const source = await probe(srcPath);
+        const problems: string[] = [];
+        const durationTolerance = config.durationTolerance !== undefined ? config.durationTolerance : 2;
+        const sourceDuration = getDuration(source);
+        const outputDuration = getDuration(output);
+        const count = (info: FFProbeResult, codecType: string) => info.streams.filter(stream => stream.codec_type === codecType).length;
+
+        // Some containers don't tell the duration, the check needs it from both files.
+        if (sourceDuration === undefined || outputDuration === undefined) {
+            log.warn(`Skipped the duration check of ${outputPath}, the duration of the ${sourceDuration === undefined ? 'source' : 'output'} is unknown.`);
+        } else if (Math.abs(sourceDuration - outputDuration) > durationTolerance) {
+            problems.push(`duration ${outputDuration.toFixed(1)}s differs from ${sourceDuration.toFixed(1)}s by more than ${durationTolerance}s`);
+        }
+
+        if (config.keepVideoStreams !== false && count(output, 'video') < count(source, 'video')) {
+            problems.push(`${count(output, 'video')} of ${count(source, 'video')} video streams kept`);
+        }
+
+        if (config.keepAudioStreams !== false && count(output, 'audio') < count(source, 'audio')) {
+            problems.push(`${count(output, 'audio')} of ${count(source, 'audio')} audio streams kept`);
+        }
+
+        if (config.rejectEmptyStreams !== false) {
+            const emptyStreams = output.streams.filter(stream => {
+                if (stream.disposition && stream.disposition.attached_pic) return false;
+
+                return parseFloat(stream.duration || '') === 0 || Number(stream.nb_frames) === 0;
+            });
+
+            if (emptyStreams.length > 0) {
+                problems.push(`streams ${emptyStreams.map(stream => stream.index).join(', ')} are empty`);
+            }
+        }
+
+        if (problems.length > 0) {
+            throw new JobFailedError(`Output validation failed: ${problems.join('; ')}.`, false);
+        }
+    }
+
+    /**
+     * Check Publish Policy
+     * @param outputPath Output Path
+     * @param srcPath Source Path
+     * @param policy Publish Policy
+     * @returns Why the output may not replace the source, if it may not.
+     */
+    public checkPublishPolicy(outputPath: string, srcPath: string, policy: PublishPolicyConfig): string | undefined {
+        if (outputPath === srcPath) return;
+
+        const srcSize = statSync(srcPath).size;
+        const outputSize = statSync(outputPath).size;
+        const savedPercent = srcSize > 0 ? (srcSize - outputSize) / srcSize * 100 : 0;
+
+        if (policy.neverLarger && outputSize > srcSize) {
+            return `output is ${outputSize - srcSize} bytes larger than the source`;
+        }
+
+        if (policy.minSavedPercent !== undefined && savedPercent < policy.minSavedPercent) {
+            return `output saves ${savedPercent.toFixed(1)}%, less than the required ${policy.minSavedPercent}%`;
+        }
+
+        if (policy.maxSize !== undefined && outputSize > policy.maxSize * 1024 * 1024) {
+            return `output is larger than ${policy.maxSize} MB`;
+        }
+    }
+
+    /**
+     * Write Dry Run Report
+     * Leaves the source untouched and writes a report comparing it to the output next to the output.
+     * @param outputPath Output Path
+     * @param srcPath Source Path
+     * @param tempPath Temporary Path
+     * @returns Dry Run Report
+     */
+    public async writeDryRunReport(outputPath: string, srcPath: string, tempPath: string): Promise<DryRunReport> {
+        const source = await summarize(srcPath);
+        const output = outputPath === srcPath ? source : await summarize(outputPath);
+        const savedBytes = source.size - output.size;
+        const report: DryRunReport = {
+            createdAt: new Date().toISOString(),
+            source: source,
+            output: output,
+            savedBytes: savedBytes,
+            savedPercent: source.size > 0 ? savedBytes / source.size * 100 : 0
+        };
+
+        outputJsonSync(join(tempPath, PublishService.DRY_RUN_REPORT_NAME), report, { spaces: 4 });
+
+        return report;
+    }
+
+    /**
+     * Remember
+     * @param path Path
+     */
+    public remember(path: string): void {
+        const stats = statSync(path);
+
+        this.publishedFiles.set(path, {
+            size: stats.size,
+            mtimeMs: stats.mtimeMs,
+            ino: stats.ino
+        });
+    }
+
+    /**
+     * Is Renamed?
+     * @param path Path of a removed file.
+     * @returns Was the file published under a new extension?
+     */
+    public isRenamed(path: string): boolean {
+        if (!this.renamedFiles.delete(path)) return false;
+
+        log.debug(`Ignoring removal of ${path}, it was published under a new extension.`);
+
+        return true;
+    }
+
+    /**
+     * Is Self Triggered?
+     * A published file is forgotten as soon as it is seen with different stats, so later real changes still get through.
+     * @param path Path
+     * @param stats Stats
+     * @returns Self Triggered?
+     */
+    public isSelfTriggered(path: string, stats: Stats): boolean {
+        if (path.endsWith(PublishService.STAGING_EXTENSION)) return true;
+
+        const publishedFile = this.publishedFiles.get(path);
+
+        if (!publishedFile) return false;
+
+        if (publishedFile.size === stats.size && publishedFile.mtimeMs === stats.mtimeMs && publishedFile.ino === stats.ino) {
+            log.debug(`Ignoring event for published file ${path}.`);
+
+            return true;
+        }
+
+        this.publishedFiles.delete(path);
+
+        return false;
+    }
+
+    /**
+     * Is Same Content?
+     * Compares both files byte for byte, a copy which differs anywhere must never replace the source.
+     * @param path Path
+     * @param otherPath Other Path
+     * @returns Same Content?
+     */
+    private static isSameContent(path: string, otherPath: string): boolean {
+        const buffer = Buffer.alloc(PublishService.COMPARE_CHUNK_SIZE);
+        const otherBuffer = Buffer.alloc(PublishService.COMPARE_CHUNK_SIZE);
+        const fd = openSync(path, 'r');
+
+        try {
+            const otherFd = openSync(otherPath, 'r');
+
+            try {
+                let bytesRead: number;
+
+                do {
+                    bytesRead = readSync(fd, buffer, 0, buffer.length, null);
+
+                    const otherBytesRead = readSync(otherFd, otherBuffer, 0, otherBuffer.length, null);
+
+                    if (bytesRead !== otherBytesRead || !buffer.subarray(0, bytesRead).equals(otherBuffer.subarray(0, otherBytesRead))) return false;
+                } while (bytesRead > 0);
+
+                return true;
+            } finally {
+                closeSync(otherFd);
+            }
+        } finally {
+            closeSync(fd);
+        }
+    }
+
+    /**
+     * Replace
+     * Recycles the source and renames the staged copy into place. When the extension changed the source is removed
+     * and its sidecars follow the new name. Safe to call again for an intent which was interrupted halfway.
+     * @param intent Staged Intent
+     */
+    private replace(intent: PublishIntent): void {
+        if (existsSync(intent.stagingPath)) {
+            if (this.recycleBin && !intent.recycledMediaId && existsSync(intent.srcPath)) {
+                intent.recycledMediaId = this.recycleBin.recycle(intent.srcPath).id;
+                this.journal.update(intent.id, { recycledMediaId: intent.recycledMediaId });
+            }
+
+            renameSync(intent.stagingPath, intent.destPath);
+        }
+
+        this.remember(intent.destPath);
+
+        if (intent.destPath !== intent.srcPath) {
+            if (existsSync(intent.srcPath)) {
+                removeSync(intent.srcPath);
+            }
+
+            this.renamedFiles.add(intent.srcPath);
+            this.moveSidecars(intent.srcPath, intent.destPath);
+        }
+
+        intent.state = PublishIntentState.PUBLISHED;
+        this.journal.update(intent.id, { state: intent.state });
+
+        if (this.recycleBin && intent.recycledMediaId) this.recycleBin.release(intent.recycledMediaId);
+    }
+
+    /**
+     * Move Sidecars
+     * Sidecars named after the full file name, like `movie.avi.srt`, are renamed to follow the media.
+     * @param srcPath Source Path
+     * @param destPath Destination Path
+     */
+    private moveSidecars(srcPath: string, destPath: string): void {
+        const srcBase = basename(srcPath);
+        const destBase = basename(destPath);
+
+        for (const name of readdirSync(dirname(srcPath))) {
+            if (!name.startsWith(`${srcBase}.`) || name.endsWith(PublishService.STAGING_EXTENSION)) continue;
+
+            const sidecarPath = join(dirname(srcPath), name);
+            const movedSidecarPath = join(dirname(destPath), destBase + name.slice(srcBase.length));
+
+            if (existsSync(movedSidecarPath)) {
+                log.warn(`Left the sidecar ${sidecarPath} in place, ${movedSidecarPath} already exists.`);
+
+                continue;
+            }
+
+            renameSync(sidecarPath, movedSidecarPath);
+
+            log.debug(`Moved the sidecar ${sidecarPath} to ${movedSidecarPath}.`);
+        }
+    }
+
+    /**
+     * Roll Back
+     * Removes the staged copy and puts a recycled original back.
+     * @param intent Intent
+     */
+    private rollBack(intent: PublishIntent): void {
+        removeSync(intent.stagingPath);
+
+        if (this.recycleBin && intent.recycledMediaId && !existsSync(intent.srcPath)) {
+            this.recycleBin.restore(intent.recycledMediaId);
+        }
+
+        this.journal.complete(intent.id);
+    }
+}
@@ -0,0 +1,134 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { existsSync, mkdtempSync, outputFileSync, readFileSync, removeSync } from 'fs-extra';
+
+import { RecycleBinConfig } from './bridgeService';
+import { RecycleBin } from './recycleBin';
+import { StorageService } from './storageService';
+
+describe('RecycleBin', () => {
+    let path: string;
+    let storageService: StorageService;
+
+    /**
+     * Create Recycle Bin
+     * @param config Recycle Bin Configuration
+     * @returns Recycle Bin
+     */
+    const createRecycleBin = (config: RecycleBinConfig = {}) => new RecycleBin(storageService, { path: join(path, 'recycle bin'), ...config });
+
+    beforeEach(() => {
+        path = mkdtempSync(join(tmpdir(), 'compressarr-'));
+        storageService = new StorageService(join(path, 'persist'));
+        storageService.initSync();
+
+        outputFileSync(join(path, 'library', 'a.mkv'), 'a');
+        outputFileSync(join(path, 'library', 'b.mkv'), 'b');
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        removeSync(path);
+    });
+
+    it('moves originals into the recycle bin', () => {
+        const recycleBin = createRecycleBin();
+        const recycledMedia = recycleBin.recycle(join(path, 'library', 'a.mkv'));
+
+        expect(existsSync(join(path, 'library', 'a.mkv'))).toBe(false);
+        expect(recycledMedia).toEqual(expect.objectContaining({ originalPath: join(path, 'library', 'a.mkv'), size: 1 }));
+        expect(readFileSync(recycledMedia.recycledPath, 'utf8')).toBe('a');
+        expect(recycleBin.getRecycledMedia()).toEqual([recycledMedia]);
+    });
+
+    it('restores originals, replacing whatever is there now', () => {
+        const recycleBin = createRecycleBin();
+        const recycledMedia = recycleBin.recycle(join(path, 'library', 'a.mkv'));
+
+        outputFileSync(join(path, 'library', 'a.mkv'), 'output');
+        recycleBin.restore(recycledMedia.id);
+
+        expect(readFileSync(join(path, 'library', 'a.mkv'), 'utf8')).toBe('a');
+        expect(existsSync(join(path, 'recycle bin', recycledMedia.id))).toBe(false);
+        expect(recycleBin.getRecycledMedia()).toEqual([]);
+    });
+
+    it('hands out copies of the recycled media', () => {
+        const recycleBin = createRecycleBin();
+        recycleBin.recycle(join(path, 'library', 'a.mkv'));
+        recycleBin.getRecycledMedia()[0].originalPath = join(path, 'library', 'b.mkv');
+
+        expect(recycleBin.getRecycledMedia()).toEqual([expect.objectContaining({ originalPath: join(path, 'library', 'a.mkv') })]);
+    });
+
+    it('refuses to restore unknown media', () => {
+        const recycleBin = createRecycleBin();
+
+        expect(() => recycleBin.restore('unknown')).toThrow('There is no recycled media with the ID \'unknown\'.');
+    });
+
+    it('remembers the recycled media across restarts', () => {
+        const recycledMedia = createRecycleBin().recycle(join(path, 'library', 'a.mkv'));
+
+        expect(createRecycleBin().getRecycledMedia()).toEqual([recycledMedia]);
+    });
+
+    it('deletes the oldest originals until the recycle bin fits its maximum size', () => {
+        jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+
+        outputFileSync(join(path, 'library', 'a.mkv'), Buffer.alloc(600 * 1024));
+        outputFileSync(join(path, 'library', 'b.mkv'), Buffer.alloc(600 * 1024));
+
+        const recycleBin = createRecycleBin({ maxSize: 1 });
+        const a = recycleBin.recycle(join(path, 'library', 'a.mkv'));
+
+        jest.setSystemTime(new Date('2026-01-01T00:01:00Z'));
+
+        const b = recycleBin.recycle(join(path, 'library', 'b.mkv'));
+
+        recycleBin.release(a.id);
+        recycleBin.release(b.id);
+
+        expect(recycleBin.getRecycledMedia()).toEqual([b]);
+        expect(existsSync(a.recycledPath)).toBe(false);
+        expect(existsSync(b.recycledPath)).toBe(true);
+    });
+
+    it('deletes originals older than the maximum age', () => {
+        jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+
+        const recycledMedia = createRecycleBin().recycle(join(path, 'library', 'a.mkv'));
+
+        jest.setSystemTime(new Date('2026-01-31T00:00:01Z'));
+
+        const recycleBin = createRecycleBin({ maxAge: 30 });
+
+        recycleBin.enforceRetention();
+
+        expect(recycleBin.getRecycledMedia()).toEqual([]);
+        expect(existsSync(recycledMedia.recycledPath)).toBe(false);
+    });
+
+    it('never deletes originals which are held', () => {
+        jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+
+        const recycleBin = createRecycleBin({ maxAge: 30, maxSize: 0 });
+        const a = recycleBin.recycle(join(path, 'library', 'a.mkv'));
+        const b = recycleBin.recycle(join(path, 'library', 'b.mkv'));
+
+        jest.setSystemTime(new Date('2026-03-01T00:00:00Z'));
+        recycleBin.enforceRetention();
+
+        expect(recycleBin.getRecycledMedia()).toEqual([a, b]);
+
+        recycleBin.release(a.id);
+
+        expect(recycleBin.getRecycledMedia()).toEqual([b]);
+
+        recycleBin.hold(a.id);
+        recycleBin.release(b.id);
+
+        expect(recycleBin.getRecycledMedia()).toEqual([]);
+    });
+});
@@ -0,0 +1,211 @@
+import { randomBytes } from 'crypto';
+import { basename, join } from 'path';
+
+import { Logger, getError } from '@epickris/node-logger';
+import { moveSync, removeSync, statSync } from 'fs-extra';
+
+import { RecycledMedia } from './api';
+import { RecycleBinConfig } from './bridgeService';
+import { StorageService } from './storageService';
+import { User } from './user';
+
+/** Log */
+const log = Logger.internal;
+
+/**
+ * Keeps replaced originals around until the retention policy deletes them.
+ */
+export class RecycleBin {
+
+    /** Manifest Item Name */
+    private static readonly MANIFEST_ITEM_NAME = 'recycleBin.json';
+
+    /**
+     * Milliseconds between retention checks.
+     */
+    private static readonly RETENTION_INTERVAL = 60 * 60 * 1000;
+
+    /** Storage Service */
+    private readonly storageService: StorageService;
+
+    /** Recycle Bin Path */
+    private readonly recycleBinPath: string;
+
+    /** Recycle Bin Configuration */
+    private readonly config: RecycleBinConfig;
+
+    /** Recycled Media by ID */
+    private readonly recycledMedia: Map<string, RecycledMedia> = new Map();
+
+    /**
+     * IDs of recycled media whose publish may still be rolled back, retention leaves them alone.
+     */
+    private readonly held: Set<string> = new Set();
+
+    /**
+     * @param storageService Storage Service
+     * @param config Recycle Bin Configuration
+     */
+    constructor(storageService: StorageService, config: RecycleBinConfig) {
+        this.storageService = storageService;
+        this.config = config;
+        this.recycleBinPath = config.path || User.recycleBinPath();
+
+        try {
+            const manifest = this.storageService.getItemSync<RecycledMedia[]>(RecycleBin.MANIFEST_ITEM_NAME) || [];
+
+            for (const recycledMedia of manifest) {
+                this.recycledMedia.set(recycledMedia.id, recycledMedia);
+            }
+        } catch (error) {
+            log.error('There was a problem reading the recycle bin manifest.');
+            log.error(getError(error));
+        }
+
+        // Retention first runs once interrupted publishes are recovered, until then any original may still be needed.
+        setInterval(this.enforceRetention.bind(this), RecycleBin.RETENTION_INTERVAL).unref();
+    }
+
+    /**
+     * Get Recycled Media
+     * @returns Copies of the recycled media.
+     */
+    public getRecycledMedia(): RecycledMedia[] {
+        return Array.from(this.recycledMedia.values()).map(recycledMedia => ({ ...recycledMedia }));
+    }
+
+    /**
+     * Recycle
+     * The original is held until it is released, see {@link release}.
+     * @param path Path of the original.
+     * @returns Recycled Media
+     */
+    public recycle(path: string): RecycledMedia {
+        const id = `${Date.now()}-${randomBytes(4).toString('hex')}`;
+        const recycledPath = join(this.recycleBinPath, id, basename(path));
+        const size = statSync(path).size;
+
+        moveSync(path, recycledPath);
+
+        const recycledMedia: RecycledMedia = {
+            id: id,
+            originalPath: path,
+            recycledPath: recycledPath,
+            size: size,
+            recycledAt: new Date().toISOString()
+        };
+
+        this.recycledMedia.set(id, recycledMedia);
+        this.held.add(id);
+        this.persist();
+
+        return recycledMedia;
+    }
+
+    /**
+     * Hold
+     * Keeps retention from deleting the recycled media until it is released.
+     * @param id Recycled Media ID
+     */
+    public hold(id: string): void {
+        this.held.add(id);
+    }
+
+    /**
+     * Release
+     * Lets retention delete the recycled media once its publish can no longer be rolled back.
+     * @param id Recycled Media ID
+     */
+    public release(id: string): void {
+        this.held.delete(id);
+        this.enforceRetention();
+    }
+
+    /**
+     * Restore
+     * Puts the original back where it came from, replacing whatever is there now.
+     * @param id Recycled Media ID
+     * @returns Recycled Media
+     */
+    public restore(id: string): RecycledMedia {
+        const recycledMedia = this.recycledMedia.get(id);
+
+        if (!recycledMedia) {
+            throw new Error(`There is no recycled media with the ID '${id}'.`);
+        }
+
+        moveSync(recycledMedia.recycledPath, recycledMedia.originalPath, {
+            overwrite: true
+        });
+        removeSync(join(this.recycleBinPath, id));
+
+        this.recycledMedia.delete(id);
+        this.held.delete(id);
+        this.persist();
+
+        return recycledMedia;
+    }
+
+    /**
+     * Enforce Retention
+     * Deletes originals older than the maximum age, then the oldest originals until the recycle bin fits the maximum size.
+     * Held originals count towards the size but are never deleted.
+     */
+    public enforceRetention(): void {
+        const recycledMedia = Array.from(this.recycledMedia.values())
+            .sort((a, b) => a.recycledAt.localeCompare(b.recycledAt));
+        const expired: RecycledMedia[] = [];
+        const isHeld = (media: RecycledMedia) => this.held.has(media.id);
+
+        if (this.config.maxAge !== undefined) {
+            const oldest = Date.now() - this.config.maxAge * 24 * 60 * 60 * 1000;
+
+            expired.push(...recycledMedia.filter(media => !isHeld(media) && Date.parse(media.recycledAt) < oldest));
+        }
+
+        if (this.config.maxSize !== undefined) {
+            const maxSize = this.config.maxSize * 1024 * 1024;
+            let size = recycledMedia.filter(media => !expired.includes(media)).reduce((total, media) => total + media.size, 0);
+
+            for (const media of recycledMedia) {
+                if (size <= maxSize) break;
+
+                if (!expired.includes(media) && !isHeld(media)) {
+                    expired.push(media);
+
+                    size -= media.size;
+                }
+            }
+        }
+
+        if (expired.length === 0) return;
+
+        for (const media of expired) {
+            try {
+                removeSync(join(this.recycleBinPath, media.id));
+            } catch (error) {
+                log.error(`There was a problem deleting ${media.recycledPath} from the recycle bin.`);
+                log.error(getError(error));
+
+                continue;
+            }
+
+            log.debug(`Deleted ${media.recycledPath} from the recycle bin.`);
+
+            this.recycledMedia.delete(media.id);
+        }
+
+        this.persist();
+    }
+
+    /** Persist */
+    private persist(): void {
+        try {
+            this.storageService.setItemSync(RecycleBin.MANIFEST_ITEM_NAME, Array.from(this.recycledMedia.values()));
+        } catch (error) {
+            log.error('There was a problem persisting the recycle bin manifest.');
+            log.error(getError(error));
+        }
+    }
+
+}
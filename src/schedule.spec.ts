@@ -0,0 +1,68 @@
+import { OutsideWindowAction, Schedule } from './schedule';
+
+// 1 January 2024 is a Monday.
+const monday = (hours: number, minutes = 0) => new Date(2024, 0, 1, hours, minutes);
+const tuesday = (hours: number, minutes = 0) => new Date(2024, 0, 2, hours, minutes);
+
+describe('Schedule', () => {
+    it('is always open without windows', () => {
+        const schedule = new Schedule({ windows: [] });
+
+        expect(schedule.isOpen(monday(3))).toBe(true);
+        expect(schedule.outsideWindow).toBe(OutsideWindowAction.FINISH);
+    });
+
+    it('is open from the start of a window until its end', () => {
+        const schedule = new Schedule({ windows: [{ start: '09:00', end: '17:30' }] });
+
+        expect(schedule.isOpen(monday(8, 59))).toBe(false);
+        expect(schedule.isOpen(monday(9))).toBe(true);
+        expect(schedule.isOpen(monday(17, 29))).toBe(true);
+        expect(schedule.isOpen(monday(17, 30))).toBe(false);
+    });
+
+    it('only opens on the days of a window', () => {
+        const schedule = new Schedule({ windows: [{ days: ['Monday', 3], start: '00:00', end: '24:00' }] });
+
+        expect(schedule.isOpen(monday(12))).toBe(true);
+        expect(schedule.isOpen(tuesday(12))).toBe(false);
+        expect(schedule.isOpen(new Date(2024, 0, 3, 12))).toBe(true);
+    });
+
+    it('runs a window ending before it starts over midnight', () => {
+        const schedule = new Schedule({ windows: [{ days: ['mon'], start: '22:00', end: '06:00' }] });
+
+        expect(schedule.isOpen(monday(21, 59))).toBe(false);
+        expect(schedule.isOpen(monday(23))).toBe(true);
+        expect(schedule.isOpen(tuesday(5, 59))).toBe(true);
+        expect(schedule.isOpen(tuesday(6))).toBe(false);
+        // The window of Sunday night isn't configured.
+        expect(schedule.isOpen(monday(3))).toBe(false);
+        expect(schedule.isOpen(tuesday(23))).toBe(false);
+    });
+
+    it('is open if any window is open', () => {
+        const schedule = new Schedule({
+            windows: [
+                { start: '01:00', end: '02:00' },
+                { start: '13:00', end: '14:00' }
+            ],
+            outsideWindow: OutsideWindowAction.PAUSE
+        });
+
+        expect(schedule.isOpen(monday(1, 30))).toBe(true);
+        expect(schedule.isOpen(monday(13, 30))).toBe(true);
+        expect(schedule.isOpen(monday(12))).toBe(false);
+        expect(schedule.outsideWindow).toBe(OutsideWindowAction.PAUSE);
+    });
+
+    it('rejects invalid times', () => {
+        expect(() => new Schedule({ windows: [{ start: '9am', end: '17:00' }] })).toThrow('Invalid schedule time \'9am\'');
+        expect(() => new Schedule({ windows: [{ start: '09:00', end: '17:60' }] })).toThrow('Invalid schedule time \'17:60\'');
+    });
+
+    it('rejects invalid days', () => {
+        expect(() => new Schedule({ windows: [{ days: [7], start: '09:00', end: '17:00' }] })).toThrow('Invalid schedule day \'7\'');
+        expect(() => new Schedule({ windows: [{ days: ['someday'], start: '09:00', end: '17:00' }] })).toThrow('Invalid schedule day \'someday\'');
+    });
+});
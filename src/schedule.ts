@@ -0,0 +1,104 @@
+import { ScheduleConfig, ScheduleWindow } from './bridgeService';
+
+/** Outside Window Action */
+export const enum OutsideWindowAction {
+
+    /** Let running jobs finish. */
+    FINISH = 'finish',
+
+    /** Pause running jobs until the next window opens. */
+    PAUSE = 'pause',
+
+    /** Kill running jobs and queue them again. */
+    KILL = 'kill'
+}
+
+/**
+ * Decides whether jobs may run at a given time.
+ */
+export class Schedule {
+
+    /** Day Names */
+    private static readonly DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+    /** Minutes in a Day */
+    private static readonly MINUTES_IN_DAY = 24 * 60;
+
+    /** Windows */
+    private readonly windows: ScheduleWindow[];
+
+    /** Outside Window Action */
+    public readonly outsideWindow: OutsideWindowAction;
+
+    /**
+     * @param config Schedule Configuration
+     */
+    constructor(config: ScheduleConfig) {
+        this.windows = config.windows || [];
+        this.outsideWindow = config.outsideWindow || OutsideWindowAction.FINISH;
+
+        for (const window of this.windows) {
+            Schedule.parseTime(window.start);
+            Schedule.parseTime(window.end);
+            (window.days || []).forEach(day => Schedule.parseDay(day));
+        }
+    }
+
+    /**
+     * Is Open?
+     * @param date Date
+     * @returns Is any window open at the date?
+     */
+    public isOpen(date: Date = new Date()): boolean {
+        if (this.windows.length === 0) return true;
+
+        const minutes = date.getHours() * 60 + date.getMinutes();
+        const day = date.getDay();
+
+        return this.windows.some(window => {
+            const start = Schedule.parseTime(window.start);
+            const end = Schedule.parseTime(window.end);
+            const days = window.days ? window.days.map(day => Schedule.parseDay(day)) : undefined;
+            const isDay = (day: number) => !days || days.includes(day);
+
+            if (start < end) {
+                return isDay(day) && minutes >= start && minutes < end;
+            }
+
+            // The window runs over midnight, the days refer to the day it starts on.
+            return (isDay(day) && minutes >= start) || (isDay((day + 6) % 7) && minutes < end);
+        });
+    }
+
+    /**
+     * Parse Time
+     * @param time Time as HH:MM
+     * @returns Minutes since midnight.
+     */
+    private static parseTime(time: string): number {
+        const match = /^(\d{1,2}):(\d{2})$/.exec(time || '');
+
+        if (!match || parseInt(match[1]) > 24 || parseInt(match[2]) > 59) {
+            throw new Error(`Invalid schedule time '${time}', times must be written as HH:MM.`);
+        }
+
+        return Math.min(parseInt(match[1]) * 60 + parseInt(match[2]), Schedule.MINUTES_IN_DAY);
+    }
+
+    /**
+     * Parse Day
+     * @param day Day number, 0 is Sunday, or day name.
+     * @returns Day Number
+     */
+    private static parseDay(day: number | string): number {
+        if (typeof day === 'number' && day >= 0 && day <= 6) return day;
+
+        const index = Schedule.DAY_NAMES.indexOf(String(day).slice(0, 3).toLowerCase());
+
+        if (index === -1) {
+            throw new Error(`Invalid schedule day '${day}', days must be 0 to 6 or a day name.`);
+        }
+
+        return index;
+    }
+}
@@ -1,16 +1,26 @@
 import { Logger, getError, getErrorMessage } from '@epickris/node-logger';
-import { existsSync, moveSync, readFileSync } from 'fs-extra';
+import { existsSync, readFileSync, statSync } from 'fs-extra';
 import { rimrafSync } from 'rimraf';
 
-import { CompressarrAPI, InternalAPIEvent, JobActionIdentifier, JobActionName, JobActionPlugin, JobActionPluginConstructor, LibraryName } from './api';
-import { CompressarrConfig, JobConfig } from './bridgeService';
-import { KillError } from './errors';
+import { APIEvent, CompressarrAPI, InternalAPIEvent, JobActionIdentifier, JobActionName, JobActionOutcome, JobActionPluginConstructor, JobActionResult, LibraryName } from './api';
+import { CompressarrConfig, JobActionConfig, JobConfig, PublishPolicyConfig, TimeoutConfig, ValidationConfig } from './bridgeService';
+import { Condition, ConditionContext } from './condition';
+import { JobFailedError, KillError, TimeoutError } from './errors';
 import { Job } from './job';
+import { JobAction, JobActionTimeout, adaptJobAction, runJobAction } from './jobAction';
+import { JobHistory, JobHistoryDetails } from './jobHistory';
+import { JobRegistry, JobState } from './jobRegistry';
 import { JobManager, JobManagerOptions } from './jobManager';
 import { Library } from './library';
 import { LibraryManager, LibraryManagerOptions } from './libraryManager';
+import { MediaLedger } from './mediaLedger';
 import { Plugin } from './plugin';
+import { DEFAULT_PIPELINE_NAME, Pipeline, getPipelineName, resolvePipelines } from './pipeline';
 import { PluginManager, PluginManagerOptions } from './pluginManager';
+import { summarize } from './probe';
+import { PublishJournal } from './publishJournal';
+import { PublishResult, PublishService } from './publishService';
+import { RecycleBin } from './recycleBin';
 import { StorageService } from './storageService';
 import { User } from './user';
 
@@ -37,11 +47,22 @@ export interface CompressarrOptions {
 
     /** Instances? */
     instances?: number;
+
+    /** Force Reprocessing? */
+    force?: boolean;
+
+    /** Dry Run? */
+    dryRun?: boolean;
 }
 
 /** Server */
 export class Server {
 
+    /**
+     * Seconds an aborted job action gets to stop when the timeout configuration doesn't say.
+     */
+    private static readonly DEFAULT_GRACE_PERIOD = 30;
+
     /** Compressarr API */
     private readonly api: CompressarrAPI;
 
@@ -51,20 +72,51 @@ export class Server {
     /** Job Manager */
     private readonly jobManager: JobManager;
 
+    /** Job Registry */
+    private readonly jobRegistry: JobRegistry = new JobRegistry();
+
     /** Library Manager */
     private readonly libraryManager: LibraryManager;
 
     /** Storage Service */
     private readonly storageService: StorageService;
 
+    /** Persist Storage Service */
+    private readonly persistStorageService: StorageService;
+
+    /** Publish Service */
+    private readonly publishService: PublishService;
+
+    /** Media Ledger */
+    private readonly mediaLedger: MediaLedger;
+
+    /** Recycle Bin */
+    private readonly recycleBin?: RecycleBin;
+
+    /** Job History */
+    private readonly jobHistory: JobHistory;
+
+    /** Pipelines by Name */
+    private readonly pipelines: Map<string, Pipeline>;
+
     /** Compressarr Configuration */
     private readonly config: CompressarrConfig;
 
-    /** Job Actions Instances */
-    private readonly jobActionsInstances: JobActionPlugin[] = [];
+    /**
+     * Job Actions Instances by Pipeline Name, keyed by job action name in the order they run.
+     */
+    private readonly jobActionsInstances: Map<string, Map<string, JobAction>> = new Map();
+
+    /** Job Action Conditions by Pipeline Name, keyed by job action name. */
+    private readonly jobActionConditions: Map<string, Map<string, Condition>> = new Map();
+
+    /**
+     * Abort Controllers of the running job actions, keyed by job path.
+     */
+    private readonly abortControllers: Map<string, AbortController> = new Map();
 
-    /** Active Jobs */
-    private readonly activeJobs: Map<string, JobConfig> = new Map();
+    /** Shutting Down? */
+    private shuttingDown = false;
 
     /**
      * @param options Compressarr Options
@@ -74,9 +126,21 @@ export class Server {
     ) {
         this.config = Server.loadConfig();
     
-        this.api = new CompressarrAPI(); 
+        this.api = new CompressarrAPI({
+            getJobs: () => this.jobRegistry.getJobs(),
+            getJob: identifier => this.jobRegistry.getJob(identifier),
+            getFailedJobs: () => this.jobManager.getFailedJobs(),
+            getRecycledMedia: () => this.recycleBin ? this.recycleBin.getRecycledMedia() : []
+        });
         this.storageService = new StorageService(User.storagePath());
         this.storageService.initSync();
+        this.persistStorageService = new StorageService(User.persistPath());
+        this.persistStorageService.initSync();
+        this.recycleBin = this.config.recycleBin ? new RecycleBin(this.persistStorageService, this.config.recycleBin) : undefined;
+        this.publishService = new PublishService(new PublishJournal(this.persistStorageService), this.recycleBin);
+        this.mediaLedger = new MediaLedger(this.persistStorageService);
+        this.jobHistory = new JobHistory(this.storageService);
+        this.pipelines = resolvePipelines(this.config);
     
         const pluginManagerOptions: PluginManagerOptions = {
             activePlugins: this.config.plugins,
@@ -91,71 +155,126 @@ export class Server {
             disabledLibraries: this.config.disabledLibraries
         }
 
-        this.libraryManager = new LibraryManager(this.api, libraryManagerOptions);
+        this.libraryManager = new LibraryManager(this.api, this.publishService, libraryManagerOptions);
 
         const jobManagerOptions: JobManagerOptions = {
             customJobPath: options.customJobPath,
-            instances: options.instances
+            instances: options.instances,
+            concurrency: this.config.concurrency,
+            pipelines: new Map(Array.from(this.pipelines.values()).map(pipeline => [pipeline.name, pipeline.signature])),
+            force: options.force,
+            retries: this.config.retries,
+            retryDelay: this.config.retryDelay,
+            libraries: this.config.libraries,
+            schedule: this.config.schedule,
+            dryRun: options.dryRun
         }
 
-        this.jobManager = new JobManager(this.api, jobManagerOptions);
+        this.jobManager = new JobManager(this.api, this.jobRegistry, this.mediaLedger, jobManagerOptions);
 
         this.api.on(InternalAPIEvent.REGISTER_JOB, async (path, jobConfig) => {
-            this.activeJobs.set(path, jobConfig);
+            const run = this.jobRegistry.getRun(path);
+            const details: JobHistoryDetails = {
+                jobActions: [],
+                jobActionResults: []
+            };
 
-            const logger = Logger.withPrefix(jobConfig.name);
+            try {
+                await this.runJob(path, jobConfig, run, details);
+            } catch (error) {
+                // runJob handles the failures it expects, anything else must not leave the job stuck in its state.
+                log.error(getError(error));
 
-            let job = new Job(logger, jobConfig);
-            let hasJob;
+                if (!this.shuttingDown && this.jobRegistry.isCurrent(path, run)) {
+                    rimrafSync(jobConfig.tempPath);
 
-            for (const jobActionInstance of this.jobActionsInstances) {
-                hasJob = this.activeJobs.has(path);
+                    this.api.failJob(path, getErrorMessage(error), !(error instanceof JobFailedError) || error.retryable);
+                }
+            } finally {
+                this.recordHistory(path, run, jobConfig, details);
+            }
+        });
 
-                if (hasJob) {
+        this.api.on(APIEvent.JOB_PROGRESS, status => {
+            const progress = status.progress || {};
+            const details = [
+                progress.stage,
+                progress.percent !== undefined ? `${progress.percent.toFixed(1)}%` : undefined,
+                progress.fps !== undefined ? `${progress.fps} fps` : undefined,
+                progress.speed !== undefined ? `${progress.speed}x` : undefined,
+                progress.eta !== undefined ? `ETA ${Math.round(progress.eta)}s` : undefined
+            ].filter(detail => detail !== undefined);
+
+            log.debug(`${status.name} (${status.actionName}): ${details.join(', ')}`);
+        });
 
-                    try {
-                        job = await jobActionInstance.start(job);
-                    } catch (error) {
-                        if (error instanceof KillError) {
-                            log.debug(error.message);
+        this.api.on(InternalAPIEvent.PAUSE_JOB, async path => {
+            const status = this.jobRegistry.getJob(path);
 
-                            return;
-                        }
+            if (!status || status.state !== JobState.RUNNING || !status.actionName) return;
 
-                        log.error(getError(error));
-                    }
-                } else {
-                    jobActionInstance.kill(path);
+            const jobActionInstance = this.getJobActionsInstances(path).get(status.actionName);
 
-                    break;
-                }
+            if (!jobActionInstance || !jobActionInstance.pause) {
+                log.warn(`${status.name} can't be paused by ${status.actionName}, letting it run.`);
+
+                return;
+            }
+
+            try {
+                await jobActionInstance.pause(path);
+
+                this.jobRegistry.transition(path, JobState.PAUSED, {
+                    actionIndex: status.actionIndex,
+                    actionName: status.actionName
+                });
+            } catch (error) {
+                log.error(getError(error));
             }
+        });
 
-            hasJob = this.activeJobs.has(path);
+        this.api.on(InternalAPIEvent.RESUME_JOB, async path => {
+            const status = this.jobRegistry.getJob(path);
 
-            if (hasJob) {
-                const srcPath = job.getSrcPath();
+            if (!status || status.state !== JobState.PAUSED || !status.actionName) return;
 
-                if (srcPath !== path) {
-                    moveSync(job.getSrcPath(), path, {
-                        overwrite: true
-                    });
-                }
+            const jobActionInstance = this.getJobActionsInstances(path).get(status.actionName);
 
-                this.activeJobs.delete(path);
+            try {
+                if (jobActionInstance && jobActionInstance.resume) await jobActionInstance.resume(path);
 
-                rimrafSync(jobConfig.tempPath);
+                this.jobRegistry.transition(path, JobState.RUNNING, {
+                    actionIndex: status.actionIndex,
+                    actionName: status.actionName
+                });
+            } catch (error) {
+                log.error(getError(error));
+            }
+        });
 
-                this.api.publishJob(path);
+        this.api.on(InternalAPIEvent.RESTORE_MEDIA, id => {
+            if (!this.recycleBin) {
+                log.warn(`Could not restore ${id} as the recycle bin is not configured.`);
+
+                return;
+            }
+
+            try {
+                const recycledMedia = this.recycleBin.restore(id);
+
+                this.publishService.remember(recycledMedia.originalPath);
+                this.mediaLedger.record(recycledMedia.originalPath, this.jobManager.getPipelineSignatureForPath(recycledMedia.originalPath));
+
+                log.info(`Restored ${recycledMedia.originalPath} from the recycle bin.`);
+            } catch (error) {
+                log.error(getErrorMessage(error));
             }
         });
 
         this.api.on(InternalAPIEvent.UNREGISTER_JOB, (path) => {
-            for (const jobActionInstance of this.jobActionsInstances) {
-                jobActionInstance.kill(path);
-            }
+            const controller = this.abortControllers.get(path);
 
-            this.activeJobs.delete(path);
+            if (controller) controller.abort(new KillError(`Job ${path} was cancelled.`));
         });
     }
 
@@ -166,10 +285,15 @@ export class Server {
         this.pluginManager.initializeInstalledPlugins();
         this.libraryManager.initializeLibraries(this.config.libraries);
 
-        if (this.config.jobActions.length > 0) {
-            this.loadJobActions();
+        this.loadJobActions();
+
+        for (const intent of this.publishService.recover()) {
+            this.mediaLedger.record(intent.destPath, this.jobManager.getPipelineSignatureForPath(intent.destPath));
+            this.publishService.complete(intent.id);
         }
 
+        this.jobManager.restore();
+
         if (this.config.libraries.length > 0) {
             this.loadLibraries();
         }
@@ -179,12 +303,47 @@ export class Server {
         await Promise.all(promises);
     }
 
+    /** Pause */
+    public pause(): void {
+        this.api.pauseQueue();
+    }
+
+    /** Resume */
+    public resume(): void {
+        this.api.resumeQueue();
+    }
+
+    /**
+     * Drain
+     * @returns Resolves once the active jobs have finished, rejects if the queue is resumed before.
+     */
+    public drain(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const drained = () => {
+                this.api.off(APIEvent.QUEUE_DRAIN_CANCELLED, cancelled);
+
+                resolve();
+            };
+            const cancelled = () => {
+                this.api.off(APIEvent.QUEUE_DRAINED, drained);
+
+                reject(new Error('The drain was cancelled as the queue was resumed.'));
+            };
+
+            this.api.once(APIEvent.QUEUE_DRAINED, drained);
+            this.api.once(APIEvent.QUEUE_DRAIN_CANCELLED, cancelled);
+            this.api.drainQueue();
+        });
+    }
+
     /** Teardown */
     public teardown(): void {
-        // Stop active work first.
-        for (const jobPath of this.activeJobs.keys()) {
+        this.shuttingDown = true;
+
+        // Stop active work first, the job manager re-queues it on the next start.
+        for (const jobConfig of this.jobRegistry.getActiveJobConfigs()) {
             try {
-                this.api.unregisterJob(jobPath);
+                this.api.unregisterJob(jobConfig.srcPath);
             } catch (error) {
                 log.debug(getError(error));
             }
@@ -194,6 +353,268 @@ export class Server {
         this.api.signalShutdown();
     }
 
+    /**
+     * Run Job
+     * @param path Path
+     * @param jobConfig Job Configuration
+     * @param run Run
+     * @param details Job History Details, filled in as the job runs.
+     */
+    private async runJob(path: string, jobConfig: JobConfig, run: number, details: JobHistoryDetails): Promise<void> {
+        const pipeline = jobConfig.pipeline || DEFAULT_PIPELINE_NAME;
+        const jobActionsInstances = this.jobActionsInstances.get(pipeline);
+
+        if (!jobActionsInstances) {
+            this.api.failJob(path, `the pipeline '${pipeline}' is not configured`, false);
+
+            return;
+        }
+
+        const isCurrent = () => !this.shuttingDown && this.jobRegistry.isCurrent(path, run);
+        const logger = Logger.withPrefix(jobConfig.name);
+
+        const job = new Job(logger, jobConfig, progress => {
+            if (!isCurrent()) return;
+
+            this.jobRegistry.setProgress(path, progress);
+
+            const status = this.jobRegistry.getJob(path);
+
+            if (status) this.api.signalJobProgress(status);
+        });
+        const timeout = this.getTimeout(jobConfig.library);
+        const jobTimeout: JobActionTimeout | undefined = timeout.job ? {
+            seconds: timeout.job,
+            elapsed: 0,
+            message: `the job ran for longer than its timeout of ${timeout.job} seconds`
+        } : undefined;
+        let actionIndex = 0;
+
+        try {
+            details.source = await summarize(path, await job.getInfo());
+        } catch (error) {
+            logger.debug(getError(error));
+        }
+
+        for (const [actionName, jobActionInstance] of jobActionsInstances) {
+            if (!isCurrent()) {
+                jobActionInstance.kill(path);
+
+                return;
+            }
+
+            const condition = this.getJobActionCondition(pipeline, actionName);
+
+            if (condition) {
+                // The job probes its working file again whenever an earlier job action changed it.
+                const info = await job.getInfo().catch(() => undefined);
+                const infoPath = job.getSrcPath();
+
+                let context: ConditionContext;
+                let met: boolean;
+
+                try {
+                    context = Condition.createContext(info, infoPath, statSync(infoPath).size, path, jobConfig.library);
+                    met = condition.evaluate(context);
+                } catch (error) {
+                    logger.error(getError(error));
+
+                    rimrafSync(jobConfig.tempPath);
+
+                    this.api.failJob(path, getErrorMessage(error), true);
+
+                    return;
+                }
+
+                if (!met) {
+                    logger.info(`Skipping ${actionName} as its condition "${condition.expression}" is not met (${condition.describe(context)}).`);
+
+                    actionIndex++;
+
+                    continue;
+                }
+            }
+
+            await this.jobManager.acquireJobAction(actionName);
+
+            if (!isCurrent()) {
+                this.jobManager.releaseJobAction(actionName);
+                jobActionInstance.kill(path);
+
+                return;
+            }
+
+            this.jobRegistry.transition(path, JobState.RUNNING, {
+                actionIndex: actionIndex++,
+                actionName: actionName
+            });
+
+            details.jobActions.push(actionName);
+
+            const controller = new AbortController();
+            const jobActionConfig = this.getJobActionConfig(pipeline, actionName);
+            const timeouts: JobActionTimeout[] = jobTimeout ? [jobTimeout] : [];
+
+            if (jobActionConfig && jobActionConfig.timeout) {
+                timeouts.push({
+                    seconds: jobActionConfig.timeout,
+                    elapsed: 0,
+                    message: `${actionName} ran for longer than its timeout of ${jobActionConfig.timeout} seconds`
+                });
+            }
+
+            this.abortControllers.set(path, controller);
+
+            let result: JobActionResult;
+
+            try {
+                result = await runJobAction(jobActionInstance, job, {
+                    controller: controller,
+                    timeouts: timeouts,
+                    gracePeriod: timeout.gracePeriod !== undefined ? timeout.gracePeriod : Server.DEFAULT_GRACE_PERIOD,
+                    isPaused: () => {
+                        const status = this.jobRegistry.getJob(path);
+
+                        return !!status && status.state === JobState.PAUSED;
+                    }
+                });
+            } catch (error) {
+                if (error instanceof KillError) {
+                    log.debug(error.message);
+
+                    return;
+                }
+
+                logger.error(getError(error));
+
+                if (error instanceof TimeoutError) {
+                    rimrafSync(jobConfig.tempPath);
+
+                    if (isCurrent()) this.api.timeOutJob(path, error.message);
+
+                    return;
+                }
+
+                rimrafSync(jobConfig.tempPath);
+
+                this.api.failJob(path, getErrorMessage(error), !(error instanceof JobFailedError) || error.retryable);
+
+                return;
+            } finally {
+                if (this.abortControllers.get(path) === controller) this.abortControllers.delete(path);
+
+                this.jobManager.releaseJobAction(actionName);
+            }
+
+            details.jobActionResults.push({ name: actionName, ...result });
+
+            for (const message of result.messages || []) {
+                logger.info(`${actionName}: ${message}`);
+            }
+
+            if (result.outcome === JobActionOutcome.REJECT) {
+                if (!isCurrent()) return;
+
+                rimrafSync(jobConfig.tempPath);
+
+                this.api.skipJob(path, `rejected by ${actionName}${result.messages && result.messages.length > 0 ? `, ${result.messages[0]}` : ''}`);
+
+                return;
+            }
+
+            if (result.outcome === JobActionOutcome.SKIP_REMAINING) {
+                logger.info(`${actionName} skipped the remaining job actions.`);
+
+                break;
+            }
+        }
+
+        if (!isCurrent()) return;
+
+        this.jobRegistry.transition(path, JobState.PUBLISHING);
+
+        let publishResult: PublishResult | undefined;
+
+        try {
+            if (jobConfig.dryRun) {
+                const report = await this.publishService.writeDryRunReport(job.getSrcPath(), path, jobConfig.tempPath);
+
+                details.source = report.source;
+                details.output = report.output;
+
+                logger.info(`Dry run finished, ${report.savedPercent.toFixed(1)}% would be saved. The output was kept in ${jobConfig.tempPath}.`);
+            } else {
+                await this.publishService.validate(job.getSrcPath(), path, this.getValidation(jobConfig.library));
+
+                details.output = await summarize(job.getSrcPath());
+
+                const reason = this.publishService.checkPublishPolicy(job.getSrcPath(), path, this.getPublishPolicy(jobConfig.library));
+
+                if (reason) {
+                    rimrafSync(jobConfig.tempPath);
+
+                    this.api.skipJob(path, `no savings, ${reason}`);
+
+                    return;
+                }
+
+                publishResult = this.publishService.publish(job.getSrcPath(), path, jobConfig.tempPath);
+                details.publishedPath = publishResult.path;
+
+                if (publishResult.path !== path) {
+                    logger.info(`Published as ${publishResult.path}, the output changed the extension.`);
+                }
+            }
+        } catch (error) {
+            logger.error(getError(error));
+
+            rimrafSync(jobConfig.tempPath);
+
+            this.api.failJob(path, getErrorMessage(error), !(error instanceof JobFailedError) || error.retryable);
+
+            return;
+        }
+
+        if (!jobConfig.dryRun) {
+            rimrafSync(jobConfig.tempPath);
+        }
+
+        this.api.publishJob(path, publishResult && publishResult.path);
+
+        if (publishResult && publishResult.intentId) this.publishService.complete(publishResult.intentId);
+    }
+
+    /**
+     * Record History
+     * Only a run which finished the job is recorded, runs which were re-queued or retried are not.
+     * @param path Path
+     * @param run Run
+     * @param jobConfig Job Configuration
+     * @param details Job History Details
+     */
+    private recordHistory(path: string, run: number, jobConfig: JobConfig, details: JobHistoryDetails): void {
+        const status = this.jobRegistry.getJob(path);
+
+        if (!status || !status.finishedAt || this.jobRegistry.getRun(path) !== run || !this.jobRegistry.isFinished(path)) return;
+
+        const savedBytes = details.source && details.output ? details.source.size - details.output.size : undefined;
+
+        this.jobHistory.record({
+            name: status.name,
+            library: jobConfig.library,
+            srcPath: path,
+            outcome: status.state,
+            reason: status.reason,
+            attempts: status.attempts,
+            dryRun: !!jobConfig.dryRun,
+            startedAt: status.startedAt,
+            finishedAt: status.finishedAt,
+            wallTime: status.startedAt ? (Date.parse(status.finishedAt) - Date.parse(status.startedAt)) / 1000 : 0,
+            savedBytes: savedBytes,
+            ...details
+        });
+    }
+
     /**
      * Load Configuration
      * @returns Compressarr Configuration
@@ -229,61 +650,170 @@ export class Server {
         return config as CompressarrConfig;
     }
 
-    /** Load Job Actions */
+    /**
+     * Get Publish Policy
+     * @param libraryName Library Name
+     * @returns Publish Policy
+     */
+    private getPublishPolicy(libraryName?: LibraryName): PublishPolicyConfig {
+        const libraryConfig = this.config.libraries.find(libraryConfig => libraryConfig.name === libraryName);
+
+        return (libraryConfig && libraryConfig.publishPolicy) || this.config.publishPolicy || {};
+    }
+
+    /**
+     * Get Validation
+     * @param libraryName Library Name
+     * @returns Validation Configuration
+     */
+    private getValidation(libraryName?: LibraryName): ValidationConfig {
+        const libraryConfig = this.config.libraries.find(libraryConfig => libraryConfig.name === libraryName);
+
+        return (libraryConfig && libraryConfig.validation) || this.config.validation || {};
+    }
+
+    /**
+     * Load Job Actions
+     * Creates the job actions of every pipeline, pipelines share an instance when they configure a job action the same way.
+     */
     private loadJobActions(): void {
-        log.info(`Loading ${this.config.jobActions.length} job actions...`);
-    
-        this.config.jobActions.forEach((jobActionConfig, index) => {
-            if (!jobActionConfig.jobAction) {
-                log.warn(`our config.json contains an illegal job action configuration object at position ${index + 1}. \
-                    Missing property 'jobAction'. Skipping entry...`);
+        const sharedInstances: Map<string, JobAction> = new Map();
 
-                return;
-            }
-        
-            const jobActionIdentifier: JobActionName | JobActionIdentifier = jobActionConfig.jobAction;
-            const displayName = jobActionConfig.name;
+        for (const pipeline of this.pipelines.values()) {
+            const jobActionsInstances: Map<string, JobAction> = new Map();
+            const jobActionConditions: Map<string, Condition> = new Map();
+            const location = (index: number) => pipeline.name === DEFAULT_PIPELINE_NAME ? `at position ${index + 1}` : `at position ${index + 1} of the '${pipeline.name}' pipeline`;
 
-            if (!displayName) {
-                log.warn(`Could not load job action ${jobActionIdentifier} at position ${index + 1} as it is missing the required 'name' property!`);
+            log.info(`Loading ${pipeline.jobActions.length} job actions for the ${pipeline.name} pipeline...`);
 
-                return;
-            }
-        
-            let plugin: Plugin;
-            let constructor: JobActionPluginConstructor;
-        
-            try {
-                plugin = this.pluginManager.getPluginForJobAction(jobActionIdentifier);
-            } catch (error) {
-                log.error(getErrorMessage(error));
+            pipeline.jobActions.forEach((jobActionConfig, index) => {
+                if (!jobActionConfig.jobAction) {
+                    log.warn(`our config.json contains an illegal job action configuration object ${location(index)}. \
+                        Missing property 'jobAction'. Skipping entry...`);
 
-                return;
-            }
-        
-            if (plugin.disabled) {
-                log.warn(`Ignoring config for the job action "${jobActionIdentifier}" in your config.json as the plugin "${plugin.getPluginIdentifier()}" has been disabled.`);
+                    return;
+                }
 
-                return;
-            }
-        
-            try {
-                constructor = plugin.getJobActionConstructor(jobActionIdentifier);
-            } catch (error) {
-                log.error(`Error loading the job action "${jobActionIdentifier}" requested in your config.json at position ${index + 1} - this is likely an issue with the "${plugin.getPluginIdentifier()}" plugin.`);
-                log.error(getError(error));
+                const jobActionIdentifier: JobActionName | JobActionIdentifier = jobActionConfig.jobAction;
+                const displayName = jobActionConfig.name;
 
-                return;
-            }
-        
-            const logger = Logger.withPrefix(displayName);
+                if (!displayName) {
+                    log.warn(`Could not load job action ${jobActionIdentifier} ${location(index)} as it is missing the required 'name' property!`);
 
-            logger(`Initializing ${jobActionIdentifier} job action...`);
-        
-            const jobActionInstance: JobActionPlugin = new constructor(logger, jobActionConfig, this.api);
+                    return;
+                }
 
-            this.jobActionsInstances.push(jobActionInstance);
-        });
+                if (jobActionsInstances.has(displayName)) {
+                    log.warn(`Could not load job action ${jobActionIdentifier} ${location(index)} as the name '${displayName}' is already used by another job action!`);
+
+                    return;
+                }
+
+                if (jobActionConfig.condition) {
+                    try {
+                        jobActionConditions.set(displayName, new Condition(jobActionConfig.condition));
+                    } catch (error) {
+                        log.error(`Could not load job action ${jobActionIdentifier} ${location(index)}: ${getErrorMessage(error)}`);
+
+                        return;
+                    }
+                }
+
+                const sharedInstanceKey = JSON.stringify(jobActionConfig);
+                const sharedInstance = sharedInstances.get(sharedInstanceKey);
+
+                if (sharedInstance) {
+                    jobActionsInstances.set(displayName, sharedInstance);
+
+                    return;
+                }
+
+                let plugin: Plugin;
+                let constructor: JobActionPluginConstructor;
+
+                try {
+                    plugin = this.pluginManager.getPluginForJobAction(jobActionIdentifier);
+                } catch (error) {
+                    log.error(getErrorMessage(error));
+
+                    return;
+                }
+
+                if (plugin.disabled) {
+                    log.warn(`Ignoring config for the job action "${jobActionIdentifier}" in your config.json as the plugin "${plugin.getPluginIdentifier()}" has been disabled.`);
+
+                    return;
+                }
+
+                try {
+                    constructor = plugin.getJobActionConstructor(jobActionIdentifier);
+                } catch (error) {
+                    log.error(`Error loading the job action "${jobActionIdentifier}" requested in your config.json ${location(index)} - this is likely an issue with the "${plugin.getPluginIdentifier()}" plugin.`);
+                    log.error(getError(error));
+
+                    return;
+                }
+
+                const logger = Logger.withPrefix(displayName);
+
+                logger(`Initializing ${jobActionIdentifier} job action...`);
+
+                const jobActionInstance = adaptJobAction(new constructor(logger, jobActionConfig, this.api), constructor.apiVersion);
+
+                sharedInstances.set(sharedInstanceKey, jobActionInstance);
+                jobActionsInstances.set(displayName, jobActionInstance);
+            });
+
+            this.jobActionsInstances.set(pipeline.name, jobActionsInstances);
+            this.jobActionConditions.set(pipeline.name, jobActionConditions);
+        }
+    }
+
+    /**
+     * Get Timeout
+     * @param libraryName Library Name
+     * @returns Timeout Configuration
+     */
+    private getTimeout(libraryName?: LibraryName): TimeoutConfig {
+        const libraryConfig = this.config.libraries.find(libraryConfig => libraryConfig.name === libraryName);
+
+        return (libraryConfig && libraryConfig.timeout) || this.config.timeout || {};
+    }
+
+    /**
+     * Get Job Action Configuration
+     * @param pipeline Pipeline Name
+     * @param actionName Job Action Name
+     * @returns Job Action Configuration?
+     */
+    private getJobActionConfig(pipeline: string, actionName: string): JobActionConfig | undefined {
+        const resolvedPipeline = this.pipelines.get(pipeline);
+
+        return resolvedPipeline ? resolvedPipeline.jobActions.find(jobActionConfig => jobActionConfig.name === actionName) : undefined;
+    }
+
+    /**
+     * Get Job Action Condition
+     * @param pipeline Pipeline Name
+     * @param actionName Job Action Name
+     * @returns Condition?
+     */
+    private getJobActionCondition(pipeline: string, actionName: string): Condition | undefined {
+        const jobActionConditions = this.jobActionConditions.get(pipeline);
+
+        return jobActionConditions ? jobActionConditions.get(actionName) : undefined;
+    }
+
+    /**
+     * Get Job Actions Instances
+     * @param path Job Path
+     * @returns Job actions instances of the pipeline the job runs.
+     */
+    private getJobActionsInstances(path: string): Map<string, JobAction> {
+        const jobConfig = this.jobRegistry.getJobConfig(path);
+        const pipeline = jobConfig && jobConfig.pipeline || DEFAULT_PIPELINE_NAME;
+
+        return this.jobActionsInstances.get(pipeline) || new Map();
     }
 
     /** Load Libraries */
@@ -306,6 +836,12 @@ export class Server {
 
                 return;
             }
+
+            if (!this.pipelines.has(getPipelineName(libraryConfig))) {
+                log.warn(`Could not load library ${libraryName} at position ${index + 1} as its pipeline could not be resolved!`);
+
+                return;
+            }
         
             let library: Library;
         
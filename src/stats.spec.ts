@@ -0,0 +1,118 @@
+import { JobHistoryEntry } from './jobHistory';
+import { JobState } from './jobRegistry';
+import { formatBytes, formatStats, getStats, StatsPeriod } from './stats';
+
+/**
+ * Create Job History Entry
+ * @param entry Job History Entry, merged into a published job.
+ * @returns Job History Entry
+ */
+const createEntry = (entry: Partial<JobHistoryEntry> = {}): JobHistoryEntry => ({
+    name: 'movie',
+    library: 'Movies',
+    srcPath: '/movies/movie.mkv',
+    outcome: JobState.SUCCEEDED,
+    source: { path: '/movies/movie.mkv', size: 1000, videoCodecs: ['h264'], audioCodecs: ['aac'] },
+    savedBytes: 400,
+    jobActions: ['Compressor'],
+    attempts: 0,
+    dryRun: false,
+    finishedAt: '2026-03-04T12:00:00.000Z',
+    wallTime: 60,
+    ...entry
+});
+
+describe('getStats', () => {
+    it('adds up the savings of published jobs', () => {
+        const stats = getStats([
+            createEntry(),
+            createEntry({ savedBytes: 100 })
+        ]);
+
+        expect(stats.total).toEqual({ jobs: 2, sourceBytes: 2000, savedBytes: 500 });
+    });
+
+    it('only counts published jobs which weren\'t dry runs towards the savings', () => {
+        const stats = getStats([
+            createEntry(),
+            createEntry({ dryRun: true }),
+            createEntry({ outcome: JobState.FAILED, savedBytes: undefined }),
+            createEntry({ outcome: JobState.CANCELLED })
+        ]);
+
+        expect(stats.total.jobs).toBe(1);
+        expect(stats.outcomes).toEqual(new Map([[JobState.SUCCEEDED, 2], [JobState.FAILED, 1], [JobState.CANCELLED, 1]]));
+    });
+
+    it('groups the savings by library and job action', () => {
+        const stats = getStats([
+            createEntry(),
+            createEntry({ library: 'Shows', jobActions: ['Compressor', 'Metadata', 'Compressor'] }),
+            createEntry({ library: undefined, jobActions: [] })
+        ]);
+
+        expect(stats.libraries).toEqual(new Map([
+            ['Movies', { jobs: 1, sourceBytes: 1000, savedBytes: 400 }],
+            ['Shows', { jobs: 1, sourceBytes: 1000, savedBytes: 400 }],
+            ['unknown', { jobs: 1, sourceBytes: 1000, savedBytes: 400 }]
+        ]));
+        expect(stats.jobActions).toEqual(new Map([
+            ['Compressor', { jobs: 2, sourceBytes: 2000, savedBytes: 800 }],
+            ['Metadata', { jobs: 1, sourceBytes: 1000, savedBytes: 400 }]
+        ]));
+    });
+
+    it('groups the savings by period', () => {
+        const entries = [
+            createEntry({ finishedAt: '2026-03-01T12:00:00.000Z' }),
+            createEntry({ finishedAt: '2026-03-02T12:00:00.000Z' }),
+            createEntry({ finishedAt: '2027-01-01T12:00:00.000Z' })
+        ];
+
+        expect(Array.from(getStats(entries).periods.keys())).toEqual(['2026-03', '2027-01']);
+        expect(Array.from(getStats(entries, StatsPeriod.DAY).periods.keys())).toEqual(['2026-03-01', '2026-03-02', '2027-01-01']);
+        expect(Array.from(getStats(entries, StatsPeriod.YEAR).periods.keys())).toEqual(['2026', '2027']);
+
+        // Weeks start on Monday, the 1st of March 2026 is a Sunday.
+        expect(getStats(entries, StatsPeriod.WEEK).periods).toEqual(new Map([
+            ['week of 2026-02-23', { jobs: 1, sourceBytes: 1000, savedBytes: 400 }],
+            ['week of 2026-03-02', { jobs: 1, sourceBytes: 1000, savedBytes: 400 }],
+            ['week of 2026-12-28', { jobs: 1, sourceBytes: 1000, savedBytes: 400 }]
+        ]));
+    });
+});
+
+describe('formatBytes', () => {
+    it('picks the largest unit which keeps the number above one', () => {
+        expect(formatBytes(0)).toBe('0 B');
+        expect(formatBytes(1023)).toBe('1023 B');
+        expect(formatBytes(1536)).toBe('1.5 KB');
+        expect(formatBytes(5 * 1024 ** 3)).toBe('5.0 GB');
+        expect(formatBytes(-2048)).toBe('-2.0 KB');
+    });
+});
+
+describe('formatStats', () => {
+    it('reports the savings', () => {
+        const report = formatStats(getStats([createEntry(), createEntry({ outcome: JobState.FAILED })]));
+
+        expect(report.split('\n')).toEqual([
+            'Saved 400 B (40.0%) over 1 published jobs.',
+            'Jobs: 1 succeeded, 1 failed.',
+            '',
+            'By library',
+            '  Movies       400 B   40.0%       1 jobs',
+            '',
+            'By job action',
+            '  Compressor       400 B   40.0%       1 jobs',
+            '',
+            'By period',
+            '  2026-03       400 B   40.0%       1 jobs',
+            ''
+        ]);
+    });
+
+    it('reports an empty history', () => {
+        expect(formatStats(getStats([]))).toContain('Jobs: none.\n\nBy library\n  Nothing published yet.');
+    });
+});
@@ -0,0 +1,187 @@
+import { JobActionOutcome } from './api';
+import { JobHistoryEntry } from './jobHistory';
+import { JobState } from './jobRegistry';
+
+/** Stats Period */
+export const enum StatsPeriod {
+
+    /** Day */
+    DAY = 'day',
+
+    /** Week, starting on Monday. */
+    WEEK = 'week',
+
+    /** Month */
+    MONTH = 'month',
+
+    /** Year */
+    YEAR = 'year'
+}
+
+/** Savings */
+export interface Savings {
+
+    /** Number of published jobs. */
+    jobs: number;
+
+    /** Source Bytes */
+    sourceBytes: number;
+
+    /** Saved Bytes */
+    savedBytes: number;
+}
+
+/** Stats */
+export interface Stats {
+
+    /** Total */
+    total: Savings;
+
+    /** Number of jobs by outcome. */
+    outcomes: Map<JobState, number>;
+
+    /** Savings by Library */
+    libraries: Map<string, Savings>;
+
+    /**
+     * Savings by Job Action, a job counts towards every job action which changed the file.
+     * Entries recorded before job actions had results count towards every job action which ran.
+     */
+    jobActions: Map<string, Savings>;
+
+    /** Savings by Period */
+    periods: Map<string, Savings>;
+}
+
+/** Byte Units */
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB', 'PB'];
+
+/**
+ * Get Period Key
+ * @param date Date
+ * @param period Stats Period
+ * @returns Period Key
+ */
+function getPeriodKey(date: Date, period: StatsPeriod): string {
+    const day = date.toISOString().slice(0, 10);
+
+    switch (period) {
+        case StatsPeriod.DAY:
+            return day;
+        case StatsPeriod.WEEK: {
+            const monday = new Date(date.getTime());
+
+            monday.setUTCDate(monday.getUTCDate() - (monday.getUTCDay() + 6) % 7);
+
+            return `week of ${monday.toISOString().slice(0, 10)}`;
+        }
+        case StatsPeriod.YEAR:
+            return day.slice(0, 4);
+        default:
+            return day.slice(0, 7);
+    }
+}
+
+/**
+ * Add Savings
+ * @param savings Savings
+ * @param entry Published Job History Entry
+ * @returns Savings
+ */
+function addSavings(savings: Savings = { jobs: 0, sourceBytes: 0, savedBytes: 0 }, entry: JobHistoryEntry): Savings {
+    savings.jobs++;
+    savings.sourceBytes += entry.source ? entry.source.size : 0;
+    savings.savedBytes += entry.savedBytes || 0;
+
+    return savings;
+}
+
+/**
+ * Get Stats
+ * Only published jobs count towards the savings, dry runs never do.
+ * @param entries Job History Entries
+ * @param period Stats Period
+ * @returns Stats
+ */
+export function getStats(entries: JobHistoryEntry[], period: StatsPeriod = StatsPeriod.MONTH): Stats {
+    const stats: Stats = {
+        total: { jobs: 0, sourceBytes: 0, savedBytes: 0 },
+        outcomes: new Map(),
+        libraries: new Map(),
+        jobActions: new Map(),
+        periods: new Map()
+    };
+
+    for (const entry of entries) {
+        stats.outcomes.set(entry.outcome, (stats.outcomes.get(entry.outcome) || 0) + 1);
+
+        if (entry.dryRun || entry.outcome !== JobState.SUCCEEDED || entry.savedBytes === undefined) continue;
+
+        const library = entry.library || 'unknown';
+        const periodKey = getPeriodKey(new Date(entry.finishedAt), period);
+
+        addSavings(stats.total, entry);
+        stats.libraries.set(library, addSavings(stats.libraries.get(library), entry));
+        stats.periods.set(periodKey, addSavings(stats.periods.get(periodKey), entry));
+
+        const jobActions = entry.jobActionResults ?
+            entry.jobActionResults.filter(result => result.outcome === JobActionOutcome.CHANGED).map(result => result.name) :
+            entry.jobActions;
+
+        for (const jobAction of new Set(jobActions)) {
+            stats.jobActions.set(jobAction, addSavings(stats.jobActions.get(jobAction), entry));
+        }
+    }
+
+    return stats;
+}
+
+/**
+ * Format Bytes
+ * @param bytes Bytes
+ * @returns Bytes in the largest unit which keeps the number above one.
+ */
+export function formatBytes(bytes: number): string {
+    let value = Math.abs(bytes);
+    let unit = 0;
+
+    while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+
+    return `${bytes < 0 ? '-' : ''}${value.toFixed(unit === 0 ? 0 : 1)} ${BYTE_UNITS[unit]}`;
+}
+
+/**
+ * Format Stats
+ * @param stats Stats
+ * @returns Stats as a plain text report.
+ */
+export function formatStats(stats: Stats): string {
+    const percent = (savings: Savings) => savings.sourceBytes > 0 ? `${(savings.savedBytes / savings.sourceBytes * 100).toFixed(1)}%` : '-';
+    const table = (title: string, savings: Map<string, Savings>) => {
+        const keys = Array.from(savings.keys());
+        const width = Math.max(...keys.map(key => key.length), 0);
+
+        return [
+            title,
+            ...(keys.length > 0 ? keys.map(key => {
+                const value = savings.get(key) as Savings;
+
+                return `  ${key.padEnd(width)}  ${formatBytes(value.savedBytes).padStart(10)}  ${percent(value).padStart(6)}  ${String(value.jobs).padStart(6)} jobs`;
+            }) : ['  Nothing published yet.']),
+            ''
+        ];
+    };
+    const outcomes = Array.from(stats.outcomes.entries()).map(([outcome, count]) => `${count} ${outcome}`);
+
+    return [
+        `Saved ${formatBytes(stats.total.savedBytes)} (${percent(stats.total)}) over ${stats.total.jobs} published jobs.`,
+        `Jobs: ${outcomes.length > 0 ? outcomes.join(', ') : 'none'}.`,
+        '',
+        ...table('By library', stats.libraries),
+        ...table('By job action', stats.jobActions),
+        ...table('By period', new Map(Array.from(stats.periods.entries()).sort(([a], [b]) => a.localeCompare(b))))
+    ].join('\n');
+}
@@ -1,4 +1,6 @@
-import { ensureDirSync } from 'fs-extra';
+import { join } from 'path';
+
+import { appendFileSync, ensureDirSync, existsSync, readFileSync, readJsonSync, removeSync, renameSync, writeJsonSync } from 'fs-extra';
 
 /** Storage Service */
 export class StorageService {
@@ -14,4 +16,80 @@ export class StorageService {
     public initSync(): void {
         return ensureDirSync(this.baseDirectory);
     }
-}
\ No newline at end of file
+
+    /**
+     * Get Item Sync
+     * @param itemName Item Name
+     * @returns Item?
+     */
+    public getItemSync<T>(itemName: string): T | null {
+        const filePath = join(this.baseDirectory, itemName);
+
+        if (!existsSync(filePath)) {
+            return null;
+        }
+
+        return readJsonSync(filePath);
+    }
+
+    /**
+     * Set Item Sync
+     * Writes to a temporary file first so a crash never leaves a half written item behind.
+     * @param itemName Item Name
+     * @param data Data
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    public setItemSync(itemName: string, data: Record<any, any> | any[]): void {
+        const filePath = join(this.baseDirectory, itemName);
+        const tempFilePath = `${filePath}.tmp`;
+
+        writeJsonSync(tempFilePath, data, { spaces: 4 });
+        renameSync(tempFilePath, filePath);
+    }
+
+    /**
+     * Get Lines Sync
+     * A line cut short by a crash while appending is skipped.
+     * @param itemName Item Name of a JSON Lines item.
+     * @returns Lines
+     */
+    public getLinesSync<T>(itemName: string): T[] {
+        const filePath = join(this.baseDirectory, itemName);
+
+        if (!existsSync(filePath)) {
+            return [];
+        }
+
+        const lines: T[] = [];
+
+        for (const line of readFileSync(filePath, { encoding: 'utf8' }).split('\n')) {
+            if (line.trim().length === 0) continue;
+
+            try {
+                lines.push(JSON.parse(line));
+            } catch (error) {
+                continue;
+            }
+        }
+
+        return lines;
+    }
+
+    /**
+     * Append Line Sync
+     * @param itemName Item Name of a JSON Lines item.
+     * @param data Data
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    public appendLineSync(itemName: string, data: Record<any, any>): void {
+        appendFileSync(join(this.baseDirectory, itemName), `${JSON.stringify(data)}\n`);
+    }
+
+    /**
+     * Remove Item Sync
+     * @param itemName Item Name
+     */
+    public removeItemSync(itemName: string): void {
+        return removeSync(join(this.baseDirectory, itemName));
+    }
+}
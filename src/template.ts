@@ -0,0 +1,47 @@
+import { statSync } from 'fs-extra';
+
+import { Condition, ConditionContext } from './condition';
+import { Job } from './job';
+
+/** Placeholder Pattern, e.g. `{input}` or `{video.codec}`. */
+const PLACEHOLDER_PATTERN = /\{([A-Za-z][\w.]*)\}/g;
+
+/**
+ * Create Template Context
+ * Templates can refer to the same values as conditions, see {@link Condition.createContext}.
+ * @param job Job
+ * @param values Values on top of those of the working file, e.g. `input` and `output`.
+ * @returns Template Context
+ */
+export async function createTemplateContext(job: Job, values: Record<string, string> = {}): Promise<ConditionContext> {
+    const path = job.getSrcPath();
+    const info = await job.getInfo().catch(() => undefined);
+
+    return {
+        ...Condition.createContext(info, path, statSync(path).size, job.identifier, job.library),
+        ...values
+    };
+}
+
+/**
+ * Render Template
+ * Lists are joined with a comma, braces which don't enclose a name are left alone.
+ * @param template Template
+ * @param context Template Context
+ * @returns Rendered Template
+ */
+export function renderTemplate(template: string, context: ConditionContext): string {
+    return template.replace(PLACEHOLDER_PATTERN, (placeholder: string, name: string) => {
+        if (!(name in context)) {
+            throw new Error(`Unknown placeholder ${placeholder} in "${template}".`);
+        }
+
+        const value = context[name];
+
+        if (value === undefined) {
+            throw new Error(`The placeholder ${placeholder} in "${template}" has no value for this file.`);
+        }
+
+        return Array.isArray(value) ? value.join(',') : String(value);
+    });
+}
@@ -33,6 +33,14 @@ export class User {
         return join(User.storagePath(), 'persist');
     }
 
+    /**
+     * Recycle Bin Path
+     * @returns Recycle Bin Path
+     */
+    static recycleBinPath(): string {
+        return join(User.storagePath(), 'recycle bin');
+    }
+
     /**
      * Cached Job Actions Path
      * @returns Cached Job Actions Path